@@ -1,4 +1,13 @@
 const esbuild = require('esbuild');
+const fs = require('fs');
+const path = require('path');
+
+// tiktoken loads its WebAssembly from the bundle's directory at runtime, and node_modules is not packaged
+function copyTokenizerWasm() {
+  const source = path.join(__dirname, 'node_modules', '@dqbd', 'tiktoken', 'tiktoken_bg.wasm');
+  fs.mkdirSync(path.join(__dirname, 'dist'), { recursive: true });
+  fs.copyFileSync(source, path.join(__dirname, 'dist', 'tiktoken_bg.wasm'));
+}
 
 esbuild.build({
   entryPoints: ['src/extension.ts'],
@@ -10,4 +19,4 @@ esbuild.build({
   target: 'node14', // Adjust based on your VS Code target
   minify: true,
   sourcemap: true, // Set to true for development
-}).catch(() => process.exit(1));
\ No newline at end of file
+}).then(copyTokenizerWasm).catch(() => process.exit(1));
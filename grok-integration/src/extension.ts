@@ -13,6 +13,32 @@ import validator from 'validator';
 import { EXCLUDE_LIST } from "./utils/exclude-list";
 import { getGitLsFilesOutputAsArray } from "./utils/git";
 import { VALID_EXTENSIONS } from "./utils/valid-extensions";
+import { createGrokClient } from "./utils/grokClient";
+import { deleteApiKey, getApiKey, initializeSecretStorage, migrateApiKeyFromSettings, setApiKey } from "./utils/config";
+import { ensureApiKey } from "./utils/context";
+import { promptForApiKey } from "./utils/ui";
+import { describeTestFramework, detectTestFramework, getChatCommand } from "./utils/chatCommands";
+import { PersistentResponseCache } from "./utils/persistentCache";
+import { buildPromptVariables, loadPromptLibrary, PromptDefinition, renderPromptTemplate, usesVariable } from "./utils/promptLibrary";
+import { CACHE_VIEW_ID, cacheEntryToMarkdown, CacheTreeItem, CacheTreeProvider, CacheViewEntry } from "./utils/cacheView";
+import { CacheStatsTracker, formatCacheStatsReport } from "./utils/cacheStats";
+import { estimateCost, findModelPrice, getModelPricing } from "./utils/pricing";
+import { describeTokenBudget, getTokenBudget } from "./utils/models";
+import { showPreflightDialog } from "./utils/preflight";
+import { MAX_INDEXED_FILE_CHARS, RetrievalIndex } from "./utils/retrievalIndex";
+import { appendWithMarkers, applyBlockChange, applySearchReplace, applyUnifiedDiff, ChangeReport, formatApplyReport, GrokCodeChange, isSafeRelativePath, parseGrokCodeChanges } from "./utils/codeChanges";
+import { ApplySnapshot, ApplySnapshotStore, hashContent } from "./utils/applySnapshots";
+import { DiagnosticEntry, findNewErrors, formatDiagnosticList } from "./utils/diagnosticsCheck";
+import { AGENT_SYSTEM_PROMPT, AgentBudget, AgentToolHost, createTextMatcher, matchesPathPattern, MAX_LISTED_FILES, numberLines, ProposeEditArgs, RunCommandArgs, runAgent } from "./utils/agentRuntime";
+import { CommandPolicy, DEFAULT_COMMAND_ALLOW_LIST, DEFAULT_COMMAND_DENY_LIST, evaluateCommand, formatCommandResult } from "./utils/commandPolicy";
+import { AgentCommandTerminal } from "./utils/commandTerminal";
+import { buildChatHistoryMessages, buildFollowUpMessages, ChatTurn } from "./utils/chatHistory";
+import { findContainingFunction } from "./utils/editor";
+import { buildQuickFixPrompt, extractReplacement, FIX_DIAGNOSTIC_COMMAND, GrokQuickFixProvider, MAX_QUICK_FIX_LINES, QUICK_FIX_CONTEXT_LINES, QUICK_FIX_SYSTEM_PROMPT } from "./utils/quickFix";
+import { DEFAULT_INLINE_COMPLETION_DEBOUNCE_MS, DEFAULT_INLINE_COMPLETION_MODEL, GrokInlineCompletionProvider, INLINE_COMPLETION_MAX_TOKENS, INLINE_COMPLETION_SYSTEM_PROMPT, InlineCompletionOptions, InlineCompletionRequest, isLanguageEnabled, setLanguageEnabled } from "./utils/inlineCompletions";
+import { PROPOSED_CHANGES_SCHEME, ProposedContentProvider, ProposedFileChange, rebaseChanges, reviewProposedChanges } from "./utils/changeReview";
+import { buildMapPrompt, buildReducePrompt, formatBatchFile, groupNotes, MAP_RESPONSE_TOKENS, MAX_BATCHES_WITHOUT_CONFIRMATION, MIN_BATCH_TOKENS, planBatches, WorkspaceChunkingMode, WorkspaceFile } from "./utils/mapReduce";
+import { countMessageTokens, countTokens, disposeTokenizers, getEncodingForModel, isExactTokenizerAvailable } from "./utils/tokenizer";
 
 
 // Lightweight DOM setup for DOMPurify
@@ -23,17 +49,130 @@ const purify = createDOMPurify(window as any);
 const RATE_LIMIT_KEY = 'grokRateLimit';
 const MAX_REQUESTS_PER_MINUTE = 20;
 
+type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+const CHAT_PARTICIPANT_ID = 'grok-integration.grok';
+
+// Per-request overrides, e.g. from a prompt library entry
+interface GrokRequestOptions {
+  // Send `code` as the complete user message instead of "<action> this <language> code"
+  verbatimPrompt?: boolean;
+  model?: string;
+  temperature?: number;
+  // Skip the cache lookup and overwrite the entry with the fresh answer
+  bypassCache?: boolean;
+  // Individual files of a whole-workspace request, so it can be split into batches when too large
+  workspaceFiles?: WorkspaceFile[];
+  // Files the request was built from, checked for edits before Apply Changes; defaults to the active document
+  inputFiles?: vscode.Uri[];
+}
+
+// System prompt for responses rendered in the Grok panel
+const PANEL_SYSTEM_PROMPT = 'You are a direct and professional AI programming assistant. You are working as a pair programmer.  Please provide accurate, concise answers with NO witty remarks, jokes, conversational filler, other than polite personality. Be strictly technical and efficient. When suggesting changes, your focus should always be security first, please clearly state which file each change belongs to using `--- FILE: path/to/file.ts ---` and give the edits as SEARCH/REPLACE blocks (the exact existing lines under `<<<<<<< SEARCH`, then `=======`, the new lines and `>>>>>>> REPLACE`) or as a unified diff with `--- a/path`, `+++ b/path` and `@@` hunk headers, never as line numbers. All code must be in proper markdown code blocks with the ability for the user to copy or apply to the relevant area. Focus only on the technical content requested.';
+
+// Guidance for code changes, sent with edit-style actions so Apply Changes can parse the answer
+function buildCodeChangeGuidance(language: string): string {
+  return `\n\nIMPORTANT: If you need to suggest code changes that should be applied to files, give the file path in a header and the edits as SEARCH/REPLACE blocks:
+
+--- FILE: relative/path/to/file.ext ---
+\`\`\`${language}
+<<<<<<< SEARCH
+exact lines currently in the file
+=======
+the lines that replace them
+>>>>>>> REPLACE
+\`\`\`
+
+Rules:
+- SEARCH must copy the existing lines exactly, including indentation, and include enough surrounding lines to match only one place in the file
+- Use one SEARCH/REPLACE block per separate edit; several blocks may follow each other in the same code block
+- To create a new file, use a \`--- CREATE FILE: relative/path ---\` header followed by a code block with the whole file
+- To delete a file, write \`--- DELETE FILE: relative/path ---\` on its own line, with no code block
+- To rename or move a file, write \`--- RENAME FILE: old/path -> new/path ---\` on its own line; edits to the renamed file use the new path
+- Alternatively, a standard unified diff in a \`\`\`diff block (with --- a/path, +++ b/path and @@ hunk headers) is accepted
+
+Only use this format if you're providing code that should be applied to existing files. For explanations and discussions, use regular markdown.`;
+}
+
 // Add these missing interfaces and constants at the top after the cache declaration
 interface CacheEntry {
   response: string;
   timestamp: number;
   tokenCount: number;
+  // Estimated completion tokens, used to report tokens saved by hits
+  responseTokenCount?: number;
+  model?: string;
+  action?: string;
+  language?: string;
+  schemaVersion?: number;
+  promptVersion?: string;
+}
+
+// Fields stored with a cache entry for the cache browser and hit analytics
+interface CacheEntryMetadata {
+  model?: string;
+  action?: string;
+  language?: string;
+  responseTokenCount?: number;
+}
+
+// What is needed to repeat a cached request; kept in memory only so source code never reaches disk
+interface CachedRequestSource {
+  title: string;
+  code: string;
+  language: string;
+  action: string;
+  options: GrokRequestOptions;
+}
+
+// Every input that can change a response is part of the cache key
+interface CacheKeyParams {
+  model?: string;
+  systemPrompt?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // How the user message is built, e.g. 'action' or 'verbatim'
+  promptFormat?: string;
+}
+
+// Bump when the key layout changes; entries written under another version are discarded
+const CACHE_KEY_SCHEMA_VERSION = 2;
+
+function hashText(text: string): string {
+  const crypto = require('crypto');
+  return crypto.createHash('sha256').update(text, 'utf8').digest('hex');
+}
+
+// Identifies the system prompt and code change guidance cached responses were generated with
+const CACHE_PROMPT_VERSION = hashText(`${PANEL_SYSTEM_PROMPT}\n${buildCodeChangeGuidance('')}`).substring(0, 12);
+
+function isCurrentCacheEntry(entry: CacheEntry): boolean {
+  return entry.schemaVersion === CACHE_KEY_SCHEMA_VERSION && entry.promptVersion === CACHE_PROMPT_VERSION;
 }
 
 // Cache will be initialized in activate() function with user settings
 let cache: LRUCache<string, CacheEntry>;
 let CACHE_TTL_MS: number;
 
+// Optional on-disk tier under the extension's global storage; survives restarts
+let persistentCache: PersistentResponseCache | undefined;
+let cacheStorageDir: string | undefined;
+
+let cacheRequestSources: LRUCache<string, CachedRequestSource>;
+
+// Inline completions fire on most pauses in typing, so they get a small memory-only cache of
+// their own instead of evicting panel responses, filling the cache view and skewing its stats
+const INLINE_COMPLETION_CACHE_ITEMS = 50;
+const inlineCompletionCache = new LRUCache<string, string>({ max: INLINE_COMPLETION_CACHE_ITEMS, ttl: 10 * 60 * 1000 });
+let cacheTreeProvider: CacheTreeProvider | undefined;
+// Per-workspace hit/miss counters; created on activation
+let cacheStats: CacheStatsTracker | undefined;
+
+// Lexical index for workspace questions, stored in workspace storage
+let retrievalIndex: RetrievalIndex | undefined;
+// Set by the first full sync; from then on the file watcher keeps the index current
+let retrievalIndexSynced = false;
+
 // Initialize cache with user settings
 function initializeCache(): void {
   const config = vscode.workspace.getConfiguration('grokIntegration');
@@ -41,11 +180,54 @@ function initializeCache(): void {
   const ttlMinutes = config.get<number>('cacheTtlMinutes') || 30;
 
   CACHE_TTL_MS = ttlMinutes * 60 * 1000;
-  cache = new LRUCache<string, CacheEntry>({ max: maxItems });
+  cache = new LRUCache<string, CacheEntry>({
+    max: maxItems,
+    dispose: (_entry, _key, reason) => {
+      if (reason === 'evict') {
+        cacheStats?.recordEviction();
+      }
+    }
+  });
+  cacheRequestSources = new LRUCache<string, CachedRequestSource>({ max: maxItems });
+
+  initializePersistentCache();
+  cacheTreeProvider?.refresh();
 
   console.log(`Grok cache initialized: max ${maxItems} items, TTL ${ttlMinutes} minutes`);
 }
 
+function initializePersistentCache(): void {
+  const config = vscode.workspace.getConfiguration('grokIntegration');
+  const enabled = isCacheEnabled() && config.get<boolean>('persistentCache') === true;
+  if (!enabled || !cacheStorageDir) {
+    if (persistentCache) {
+      void persistentCache.flush();
+      persistentCache = undefined;
+    }
+    return;
+  }
+
+  const maxBytes = Math.max(1, Math.min(200, config.get<number>('persistentCacheMaxMB') || 10)) * 1024 * 1024;
+  if (persistentCache) {
+    // Keep the loaded instance so unflushed writes are not lost on settings changes
+    persistentCache.configure(maxBytes, CACHE_TTL_MS);
+    return;
+  }
+
+  persistentCache = new PersistentResponseCache(cacheStorageDir, maxBytes, CACHE_TTL_MS, redactSecrets, count => cacheStats?.recordEviction(count));
+  const loadingCache = persistentCache;
+  loadingCache.load()
+    .then(() => {
+      // Drop entries written under an older key schema or system prompt
+      const purged = loadingCache.purge(entry => !isCurrentCacheEntry(entry));
+      if (purged > 0) {
+        console.log(`Persistent cache: invalidated ${purged} outdated entries`);
+      }
+      cacheTreeProvider?.refresh();
+    })
+    .catch(error => logExtensionError(error, 'persistentCache.load'));
+}
+
 // Check if cache is enabled
 function isCacheEnabled(): boolean {
   const config = vscode.workspace.getConfiguration('grokIntegration');
@@ -54,26 +236,28 @@ function isCacheEnabled(): boolean {
 
 // Utility Functions
 // Add the missing generateCacheKey function
-function generateCacheKey(code: string, language: string, action: string): string {
+function generateCacheKey(code: string, language: string, action: string, params: CacheKeyParams = {}): string {
   // Input validation
   if (typeof code !== 'string' || typeof language !== 'string' || typeof action !== 'string') {
     throw new Error('generateCacheKey: All parameters must be strings');
   }
 
   try {
-    const crypto = require('crypto');
     // Normalize inputs to ensure consistent keys
-    const normalizedCode = code.trim();
-    const normalizedLanguage = language.toLowerCase().trim();
-    const normalizedAction = action.toLowerCase().trim();
-
-    const content = `${normalizedAction}:${normalizedLanguage}:${normalizedCode}`;
-
-    // Limit content length to prevent performance issues
-    const truncatedContent = content.length > 50000 ?
-      content.substring(0, 50000) + `[TRUNCATED:${content.length}]` : content;
+    const keySchema = {
+      v: CACHE_KEY_SCHEMA_VERSION,
+      action: action.toLowerCase().trim(),
+      language: language.toLowerCase().trim(),
+      model: (params.model || '').trim(),
+      systemPrompt: params.systemPrompt ? hashText(params.systemPrompt) : '',
+      temperature: params.temperature ?? null,
+      maxTokens: params.maxTokens ?? null,
+      promptFormat: params.promptFormat || 'action',
+      code: code.trim()
+    };
 
-    return crypto.createHash('sha256').update(truncatedContent, 'utf8').digest('hex').substring(0, 16);
+    // The full input is hashed so large requests that differ only near the end get distinct keys
+    return `v${CACHE_KEY_SCHEMA_VERSION}-` + hashText(JSON.stringify(keySchema)).substring(0, 16);
   } catch (error) {
     console.error('Error generating cache key:', error);
     // Fallback to simple hash
@@ -97,6 +281,12 @@ function getFromCache(key: string): CacheEntry | undefined {
         return undefined;
       }
 
+      // Entries from an older key schema or system prompt are stale
+      if (!isCurrentCacheEntry(cached)) {
+        cache.delete(key);
+        return undefined;
+      }
+
       // Check if cache entry is still valid (not expired)
       const config = vscode.workspace.getConfiguration('grokIntegration');
       const ttlMinutes = config.get<number>('cacheTtlMinutes') || 30;
@@ -105,10 +295,18 @@ function getFromCache(key: string): CacheEntry | undefined {
 
       if (isExpired) {
         cache.delete(key);
+        cacheStats?.recordExpiration();
         return undefined;
       }
       return cached;
     }
+
+    // Fall back to the on-disk tier and promote hits into memory
+    const persisted = persistentCache?.get(key);
+    if (persisted && isCurrentCacheEntry(persisted)) {
+      cache.set(key, persisted);
+      return persisted;
+    }
     return undefined;
   } catch (error) {
     console.error('Error retrieving from cache:', error);
@@ -117,7 +315,7 @@ function getFromCache(key: string): CacheEntry | undefined {
 }
 
 // Set to Cache
-function setToCache(key: string, response: string, tokenCount: number): void {
+function setToCache(key: string, response: string, tokenCount: number, metadata: CacheEntryMetadata = {}): void {
   if (!cache || !isCacheEnabled() || typeof key !== 'string' || typeof response !== 'string') {
     return;
   }
@@ -138,14 +336,65 @@ function setToCache(key: string, response: string, tokenCount: number): void {
     const cacheEntry: CacheEntry = {
       response,
       timestamp: Date.now(),
-      tokenCount
+      tokenCount,
+      ...metadata,
+      schemaVersion: CACHE_KEY_SCHEMA_VERSION,
+      promptVersion: CACHE_PROMPT_VERSION
     };
     cache.set(key, cacheEntry);
+    persistentCache?.set(key, cacheEntry);
+    cacheTreeProvider?.refresh();
   } catch (error) {
     console.error('Error setting cache entry:', error);
   }
 }
 
+function deleteFromCache(key: string): void {
+  cache?.delete(key);
+  cacheRequestSources?.delete(key);
+  persistentCache?.delete(key);
+  cacheTreeProvider?.refresh();
+}
+
+function clearAllCaches(): void {
+  cache.clear();
+  cacheRequestSources?.clear();
+  inlineCompletionCache.clear();
+  persistentCache?.clear();
+  cacheTreeProvider?.refresh();
+}
+
+// Snapshot of both cache tiers for the cache browser; memory entries win over their disk copies
+function listCacheEntries(): CacheViewEntry[] {
+  const entries = new Map<string, CacheViewEntry>();
+  const toViewEntry = (key: string, entry: CacheEntry, tier: CacheViewEntry['tier']): CacheViewEntry => ({
+    key,
+    action: entry.action || 'unknown action',
+    language: entry.language || 'unknown',
+    model: entry.model || 'unknown model',
+    timestamp: entry.timestamp,
+    tokenCount: entry.tokenCount,
+    response: entry.response,
+    tier,
+    canRerun: !!cacheRequestSources?.has(key)
+  });
+
+  for (const key of persistentCache?.keys() || []) {
+    const entry = persistentCache?.get(key);
+    if (entry && isCurrentCacheEntry(entry)) {
+      entries.set(key, toViewEntry(key, entry, 'disk'));
+    }
+  }
+  if (cache) {
+    for (const [key, entry] of cache.entries()) {
+      if (isCurrentCacheEntry(entry) && Date.now() - entry.timestamp <= CACHE_TTL_MS) {
+        entries.set(key, toViewEntry(key, entry, 'memory'));
+      }
+    }
+  }
+  return Array.from(entries.values());
+}
+
 // Enhanced cache maintenance: periodic cleanup of expired entries for better efficiency
 function cleanupExpiredCacheEntries(): void {
   if (!cache || !isCacheEnabled()) {
@@ -168,6 +417,11 @@ function cleanupExpiredCacheEntries(): void {
 
     // Remove expired entries
     keysToDelete.forEach(key => cache.delete(key));
+    const prunedFromDisk = persistentCache?.pruneExpired() || 0;
+    if (keysToDelete.length + prunedFromDisk > 0) {
+      cacheStats?.recordExpiration(keysToDelete.length + prunedFromDisk);
+      cacheTreeProvider?.refresh();
+    }
 
     if (keysToDelete.length > 0) {
       console.log(`Cache cleanup: removed ${keysToDelete.length} expired entries`);
@@ -207,6 +461,15 @@ function redactSecrets(text: string): string {
     .replace(/\b\d{4}[-\s]?\d{4}[-\s]?\d{4}[-\s]?\d{4}\b/g, 'CREDIT_CARD_REDACTED');
 }
 
+// Placeholders redactSecrets writes in place of hidden values, e.g. REDACTED and URL_REDACTED
+const REDACTION_PLACEHOLDER_REGEX = /\b(?:[A-Z]+_)*REDACTED\b/g;
+
+// Placeholders in text that the current file does not have, so writing text would destroy real values
+function findIntroducedPlaceholders(text: string, current: string): string[] {
+  const placeholders = new Set(text.match(REDACTION_PLACEHOLDER_REGEX) ?? []);
+  return Array.from(placeholders).filter(placeholder => !current.includes(placeholder));
+}
+
 // Enhanced sanitizeForJson function with validator library for robust input sanitization
 function sanitizeForJson(text: string): string {
   // Input validation with validator
@@ -380,6 +643,38 @@ function getLoadingHTML(): string {
         .copy-button:focus {
           outline: 2px solid #76C4DC;
         }
+        .follow-up-turn {
+          border-top: 1px solid var(--vscode-side-bar-border);
+          margin-top: 1.5em;
+          padding-top: 1em;
+        }
+        .follow-up-question {
+          font-weight: bold;
+          white-space: pre-wrap;
+          margin-bottom: 0.75em;
+        }
+        .follow-up-bar {
+          position: sticky;
+          bottom: 0;
+          background: var(--vscode-editor-background);
+          border-top: 2px solid #0270DE; /* nd-dark-blue.400 */
+          margin-top: 18px;
+          padding: 10px 0;
+          display: flex;
+          gap: 8px;
+          align-items: flex-end;
+        }
+        .follow-up-bar textarea {
+          flex: 1;
+          resize: vertical;
+          font-family: inherit;
+          font-size: 1rem;
+          padding: 6px;
+          background: var(--vscode-input-background);
+          color: var(--vscode-input-foreground);
+          border: 1px solid #319CBB;
+          border-radius: 5px;
+        }
         @media (max-width: 600px) {
           body {
             font-size: 0.95rem;
@@ -400,6 +695,11 @@ function getLoadingHTML(): string {
         <button id="apply-changes" class="action-button" style="display: none;">Apply Changes</button>
       </div>
       <div id="content">Loading...</div>
+      <div id="follow-ups"></div>
+      <div class="follow-up-bar">
+        <textarea id="follow-up-input" rows="2" placeholder="Ask a follow-up question..." disabled></textarea>
+        <button id="follow-up-send" class="action-button" disabled>Send</button>
+      </div>
       <script>
         (function() {
           const vscode = acquireVsCodeApi();
@@ -438,6 +738,39 @@ function getLoadingHTML(): string {
           document.getElementById('apply-changes').addEventListener('click', () => {
             vscode.postMessage({ command: 'applyChanges' });
           });
+          const followUpInput = document.getElementById('follow-up-input');
+          const followUpSend = document.getElementById('follow-up-send');
+          function setFollowUpEnabled(enabled) {
+            followUpInput.disabled = !enabled;
+            followUpSend.disabled = !enabled;
+            if (enabled) {
+              followUpInput.focus();
+            }
+          }
+          function sendFollowUp() {
+            const text = followUpInput.value.trim();
+            if (!text || followUpInput.disabled) {
+              return;
+            }
+            followUpInput.value = '';
+            setFollowUpEnabled(false);
+            vscode.postMessage({ command: 'followUp', text: text });
+          }
+          followUpSend.addEventListener('click', sendFollowUp);
+          followUpInput.addEventListener('keydown', (e) => {
+            // Enter sends, Shift+Enter inserts a newline
+            if (e.key === 'Enter' && !e.shiftKey) {
+              e.preventDefault();
+              sendFollowUp();
+            }
+          });
+          // Follow-up turns render into their own container; the initial response uses #content
+          function getTarget(turnId) {
+            if (turnId === undefined) {
+              return document.getElementById('content');
+            }
+            return document.getElementById('turn-' + turnId + '-response');
+          }
           function copyToClipboard(text) {
             if (navigator.clipboard && navigator.clipboard.writeText) {
               navigator.clipboard.writeText(text).then(() => {
@@ -509,13 +842,34 @@ function getLoadingHTML(): string {
           }
           window.addEventListener('message', event => {
             const message = event.data;
-            if (message.type === 'update') {
+            if (message.type === 'turnStart') {
+              const turn = document.createElement('div');
+              turn.className = 'follow-up-turn';
+              const question = document.createElement('div');
+              question.className = 'follow-up-question';
+              question.textContent = message.label || ('❓ ' + message.question);
+              const response = document.createElement('div');
+              response.id = 'turn-' + message.turnId + '-response';
+              response.textContent = 'Loading...';
+              turn.appendChild(question);
+              turn.appendChild(response);
+              document.getElementById('follow-ups').appendChild(turn);
+              turn.scrollIntoView({ behavior: 'smooth', block: 'start' });
+            } else if (message.type === 'update') {
               // Directly append pre-sanitized content (from extension)
-              document.getElementById('content').innerHTML += message.content;
+              const target = getTarget(message.turnId);
+              if (target.textContent === 'Loading...') {
+                target.innerHTML = '';
+              }
+              target.innerHTML += message.content;
               setupCopyButtons();
             } else if (message.type === 'complete') {
-              document.getElementById('content').innerHTML = message.html;
+              getTarget(message.turnId).innerHTML = message.html;
               setupCopyButtons();
+              // Partial results (e.g. one batch of a chunked request) keep follow-ups disabled until the answer is final
+              if (!message.partial) {
+                setFollowUpEnabled(true);
+              }
             } else if (message.command === 'showInfo') {
               vscode.postMessage({ command: 'showInfo', message: message.message });
             } else if (message.command === 'showError') {
@@ -535,7 +889,17 @@ async function getWorkspaceContext(): Promise<string> {
   return `Workspace: ${workspaceName}\nActive File: ${activeFile}`;
 }
 
-async function estimateTokens(text: string, files: string[] = []): Promise<number> {
+function getTokenMultiplier(): number {
+  const config = vscode.workspace.getConfiguration('grokIntegration');
+  return Math.max(1.0, Math.min(2.0, config.get<number>('tokenMultiplier') || 1.1)); // Clamped between 1.0 and 2.0
+}
+
+function getConfiguredModel(): string {
+  return vscode.workspace.getConfiguration('grokIntegration').get<string>('model') || 'grok-3-mini';
+}
+
+// Counts with the model's tokenizer; tokenMultiplier only pads the heuristic used when the tokenizer is unavailable
+async function estimateTokens(text: string, files: string[] = [], model: string = getConfiguredModel()): Promise<number> {
   // Input validation
   if (typeof text !== 'string' || text.length === 0) {
     return 0;
@@ -547,18 +911,10 @@ async function estimateTokens(text: string, files: string[] = []): Promise<numbe
 
   // Filter and validate files array for security (ensure they are non-empty strings)
   const validFiles: string[] = files.filter(file => typeof file === 'string' && file.length > 0);
-
-  const config = vscode.workspace.getConfiguration('grokIntegration');
-  const multiplier = Math.max(1.0, Math.min(2.0, config.get<number>('tokenMultiplier') || 1.1)); // Clamped between 1.0 and 2.0
+  const multiplier = getTokenMultiplier();
 
   try {
-    // Improved token estimation using word counting
-    const words = text.trim().split(/\s+/).filter(word => word.length > 0);
-    let total = Math.ceil(words.length * multiplier);
-
-    // Add tokens for special characters
-    const specialChars = (text.match(/[^\w\s]/g) || []).length;
-    total += Math.ceil(specialChars * 0.1 * multiplier);
+    let total = countTokens(text, model, multiplier);
 
     // Process files concurrently for efficiency, using vscode.workspace.fs for secure access
     if (validFiles.length > 0) {
@@ -569,11 +925,7 @@ async function estimateTokens(text: string, files: string[] = []): Promise<numbe
           const contentString = Buffer.from(content).toString('utf-8'); // Convert Uint8Array to string
 
           if (contentString && contentString.length > 0) {
-            const fileWords = contentString.trim().split(/\s+/).filter(word => word.length > 0);
-            total += Math.ceil(fileWords.length * multiplier);
-
-            const fileSpecialChars = (contentString.match(/[^\w\s]/g) || []).length;
-            total += Math.ceil(fileSpecialChars * 0.1 * multiplier);
+            total += countTokens(contentString, model, multiplier);
           }
         } catch (fileError) {
           const fileErrorMsg = fileError instanceof Error ? fileError.message : String(fileError);
@@ -595,6 +947,15 @@ async function estimateTokens(text: string, files: string[] = []): Promise<numbe
   }
 }
 
+// Prompt tokens of a chat request, including per-message formatting overhead
+function countChatTokens(messages: ChatMessage[], model: string, includeReplyPriming = true): number {
+  const tokenizerMessages = messages.map(message => ({
+    role: message.role,
+    content: typeof message.content === 'string' ? message.content : JSON.stringify(message.content ?? '')
+  }));
+  return countMessageTokens(tokenizerMessages, model, getTokenMultiplier(), includeReplyPriming);
+}
+
 
 async function testGrokConnection(apiKey: string): Promise<boolean> {
   if (!apiKey || typeof apiKey !== 'string' || apiKey.trim() === '') {
@@ -605,7 +966,7 @@ async function testGrokConnection(apiKey: string): Promise<boolean> {
   try {
     const config = vscode.workspace.getConfiguration('grokIntegration');
     const modelName = config.get<string>('model') || 'grok-3-mini';
-    const openai = new OpenAI({ apiKey, baseURL: 'https://api.x.ai/v1', timeout: 30000 });
+    const openai = createGrokClient(apiKey, { timeout: 30000 });
     const response = await openai.chat.completions.create({
       model: modelName,
       messages: [{ role: 'user', content: 'Hi' }],
@@ -630,8 +991,8 @@ async function testGrokConnection(apiKey: string): Promise<boolean> {
 
 
 // Core Functions
-async function showGrokPanel(context: vscode.ExtensionContext, title: string, code: string, language: string, action: string, token: vscode.CancellationToken): Promise<void> {
-  // Persistent rate limiting
+// Persistent rate limiting shared by initial requests and follow-ups
+async function checkRateLimit(context: vscode.ExtensionContext): Promise<boolean> {
   const state = context.globalState.get<{ count: number; lastReset: number }>(RATE_LIMIT_KEY, { count: 0, lastReset: Date.now() });
   const now = Date.now();
   if (now - state.lastReset > 60000) {
@@ -640,31 +1001,37 @@ async function showGrokPanel(context: vscode.ExtensionContext, title: string, co
   }
   if (state.count >= MAX_REQUESTS_PER_MINUTE) {
     vscode.window.showErrorMessage('Rate limit exceeded. Please wait a minute.');
-    return;
+    return false;
   }
   state.count++;
   await context.globalState.update(RATE_LIMIT_KEY, state);
+  return true;
+}
+
+async function showGrokPanel(context: vscode.ExtensionContext, title: string, code: string, language: string, action: string, token: vscode.CancellationToken, options: GrokRequestOptions = {}): Promise<void> {
+  if (!(await checkRateLimit(context))) {
+    return;
+  }
 
   const config = vscode.workspace.getConfiguration('grokIntegration');
-  let apiKey = config.get<string>('apiKey');
   const modelName = config.get<string>('model') || 'grok-3-mini';
   if (!modelName) {
     vscode.window.showWarningMessage('No Grok model is set. Please check your settings for available models.');
   }
-  if (!apiKey || typeof apiKey !== 'string' || !apiKey.trim()) {
-    const newKey = await vscode.window.showInputBox({
-      prompt: 'Enter your xAI API key',
-      password: true,
-      placeHolder: 'xai-...'
-    });
-    if (newKey && typeof newKey === 'string' && newKey.trim()) {
-      await config.update('apiKey', newKey.trim(), vscode.ConfigurationTarget.Global);
-      apiKey = newKey.trim();
-    } else {
-      vscode.window.showErrorMessage('❌ API key is required to use Grok Integration.');
-      return;
-    }
+  // Prompts for the key (and stores it in SecretStorage) when none is set
+  let apiKey: string;
+  try {
+    apiKey = await ensureApiKey();
+  } catch {
+    return;
+  }
+  // Resolved before the panel opens and takes focus; kept in options so re-runs check the same files
+  if (!options.inputFiles && !options.workspaceFiles) {
+    const document = vscode.window.activeTextEditor?.document;
+    options = { ...options, inputFiles: document && !document.isUntitled ? [document.uri] : [] };
   }
+  const inputRecords = await recordRequestInputs(options);
+
   const panel = vscode.window.createWebviewPanel('grokResponse', title, vscode.ViewColumn.Beside, { enableScripts: true, retainContextWhenHidden: true });
   panel.webview.html = getLoadingHTML();
 
@@ -672,13 +1039,49 @@ async function showGrokPanel(context: vscode.ExtensionContext, title: string, co
     panel.dispose();
   });
 
-  const rawMarkdownResponse = await processGrokRequest(panel, code, language, action, apiKey, token);
+  // Message history of this panel; follow-up questions are sent with the full conversation
+  const history: ChatMessage[] = [];
+  const initialResponse = await processGrokRequest(panel, code, language, action, apiKey, token, history, options);
+  const transcript: Array<{ question?: string; response: string }> = initialResponse ? [{ response: initialResponse }] : [];
+  // Apply Changes always works on the most recent answer
+  let rawMarkdownResponse = initialResponse;
+
+  let followUpCount = 0;
+  let followUpCts: vscode.CancellationTokenSource | undefined;
+  // Repair rounds run so far for errors introduced by Apply Changes, and the errors from before the first apply
+  let repairRound = 0;
+  let repairBaseline: DiagnosticEntry[] | undefined;
+  panel.onDidDispose(() => followUpCts?.cancel());
+
+  // A label replaces long generated questions in the panel and in saved transcripts
+  const sendFollowUp = async (question: string, label?: string): Promise<string | undefined> => {
+    const turnId = ++followUpCount;
+    panel.webview.postMessage({ type: 'turnStart', turnId, question, label });
+    if (!question || history.length === 0 || !(await checkRateLimit(context))) {
+      panel.webview.postMessage({ type: 'complete', turnId, html: '<p>❌ Follow-up could not be sent. Please start a new request.</p>' });
+      return;
+    }
+    followUpCts = new vscode.CancellationTokenSource();
+    try {
+      const response = await processGrokFollowUp(panel, history, question, apiKey, followUpCts.token, turnId, options);
+      if (response) {
+        transcript.push({ question: label || question, response });
+        rawMarkdownResponse = response;
+      }
+      return response;
+    } finally {
+      followUpCts.dispose();
+      followUpCts = undefined;
+    }
+  };
 
   let currentMode = 'ask';
   panel.webview.onDidReceiveMessage(
     async message => {
-      if (message.command === 'saveFile') {
-        if (rawMarkdownResponse) {
+      if (message.command === 'followUp') {
+        await sendFollowUp(typeof message.text === 'string' ? message.text.trim() : '');
+      } else if (message.command === 'saveFile') {
+        if (transcript.length > 0) {
           const now = new Date();
           const day = String(now.getDate()).padStart(2, '0');
           const month = String(now.getMonth() + 1).padStart(2, '0');
@@ -693,8 +1096,12 @@ async function showGrokPanel(context: vscode.ExtensionContext, title: string, co
             defaultUri: vscode.Uri.file(filename),
             filters: { 'Markdown Files': ['md'] }
           });
+          // Follow-up turns are appended under their question so the saved file reads as a conversation
+          const markdown = transcript
+            .map(turn => turn.question ? `## Follow-up: ${turn.question}\n\n${turn.response}` : turn.response)
+            .join('\n\n---\n\n');
           if (uri) {
-            await vscode.workspace.fs.writeFile(uri, Buffer.from(rawMarkdownResponse, 'utf8'));
+            await vscode.workspace.fs.writeFile(uri, Buffer.from(markdown, 'utf8'));
             vscode.window.showInformationMessage(`✅ Response saved to ${path.basename(uri.fsPath)}`);
           }
         } else {
@@ -704,138 +1111,171 @@ async function showGrokPanel(context: vscode.ExtensionContext, title: string, co
         currentMode = message.mode;
       } else if (message.command === 'applyChanges') {
         if (rawMarkdownResponse) {
-          const changes = parseGrokCodeChanges(rawMarkdownResponse);
+          // A click on Apply starts over; repair rounds call applyChanges directly
+          repairRound = 0;
+          repairBaseline = undefined;
+          let changes = parseGrokCodeChanges(rawMarkdownResponse);
           if (changes.length === 0) {
             vscode.window.showErrorMessage('No code changes found in response.');
             return;
           }
-          const applyChanges = async () => {
-            const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
-            for (const change of changes) {
-              try {
-                let filePath = change.file;
-                if (filePath.startsWith('/')) {
-                  filePath = filePath.slice(1);
-                }
-                // Security: Validate path - must be relative, no '..', and within workspace
-                if (path.isAbsolute(filePath) || filePath.includes('..')) {
-                  vscode.window.showErrorMessage(`Invalid file path: ${change.file}. Must be relative within workspace without '..'.`);
-                  continue;
-                }
-                const resolvedPath = path.normalize(path.join(workspaceRoot, filePath));
-                if (!resolvedPath.startsWith(workspaceRoot)) {
-                  vscode.window.showErrorMessage(`Path traversal detected: ${change.file}. Skipping.`);
-                  continue;
-                }
-                const fileUri = vscode.Uri.file(resolvedPath);
-
-                let doc: vscode.TextDocument;
-                try {
-                  doc = await vscode.workspace.openTextDocument(fileUri);
-                } catch (openError) {
-                  // File doesn't exist, create it if the action is appropriate
-                  if (change.action === 'replace' || change.action === 'insert') {
-                    await vscode.workspace.fs.writeFile(fileUri, Buffer.from('', 'utf8'));
-                    doc = await vscode.workspace.openTextDocument(fileUri);
-                  } else {
-                    throw openError;
-                  }
-                }
+          // Proposed edits are computed in memory, reviewed in a diff, then written as one WorkspaceEdit
+          const applyChanges = async (review: boolean) => {
+            let baseContents: Map<string, string> | undefined;
+            const drifted = await findDriftedInputs(inputRecords);
+            if (drifted.length > 0) {
+              const names = drifted.map(record => record.file);
+              const choice = await vscode.window.showWarningMessage(
+                `${drifted.length} file(s) changed after this request was sent, so Grok's edits may not fit them anymore: ${names.slice(0, 5).join(', ')}${names.length > 5 ? ', …' : ''}`,
+                { modal: true, detail: 'Re-anchor moves each edit onto the current content by its surrounding lines. Regenerate sends the current files back to Grok for new edits.' },
+                'Re-anchor Edits',
+                'Regenerate Response',
+                'Continue Anyway'
+              );
+              if (!choice) {
+                return;
+              }
+              if (choice === 'Regenerate Response') {
+                await regenerateForDriftedInputs(drifted);
+                return;
+              }
+              if (choice === 'Re-anchor Edits') {
+                baseContents = new Map(drifted.map(record => [record.uri.toString(), record.content]));
+              }
+            }
+
+            const { files, reports, operations } = await proposeFileChanges(changes, baseContents);
+            void showApplyFailures(reports);
+            if (files.length === 0 && operations.length === 0) {
+              if (reports.length === 0) {
+                vscode.window.showInformationMessage('The suggested changes match the current files; nothing to apply.');
+              }
+              return;
+            }
 
-                const edit = new vscode.WorkspaceEdit();
-
-                // Apply different types of changes based on action and line information
-                if (change.lineStart !== undefined && change.lineEnd !== undefined) {
-                  // Specific line range replacement
-                  const startPos = new vscode.Position(Math.max(0, change.lineStart - 1), 0);
-                  const endPos = new vscode.Position(Math.min(doc.lineCount - 1, change.lineEnd - 1), doc.lineAt(Math.min(doc.lineCount - 1, change.lineEnd - 1)).text.length);
-                  edit.replace(fileUri, new vscode.Range(startPos, endPos), change.code);
-                } else if (change.action === 'append') {
-                  // Append to end of file
-                  const lastLine = doc.lineCount - 1;
-                  const lastLineLength = doc.lineAt(lastLine).text.length;
-                  const appendPos = new vscode.Position(lastLine, lastLineLength);
-                  edit.insert(fileUri, appendPos, '\n' + change.code);
-                } else if (change.action === 'prepend') {
-                  // Insert at beginning of file
-                  const startPos = new vscode.Position(0, 0);
-                  edit.insert(fileUri, startPos, change.code + '\n');
-                } else {
-                  // Default behavior: try to find and replace similar code, or warn about full replacement
-                  const fileContent = doc.getText();
-
-                  // Try to find a similar code block to replace
-                  const lines = change.code.split('\n');
-                  const searchPattern = lines[0].trim(); // Use first line as search pattern
-
-                  if (searchPattern && fileContent.includes(searchPattern)) {
-                    // Try to find the existing code and replace it intelligently
-                    const fileLines = fileContent.split('\n');
-                    let foundIndex = -1;
-
-                    for (let i = 0; i < fileLines.length; i++) {
-                      if (fileLines[i].trim() === searchPattern) {
-                        foundIndex = i;
-                        break;
-                      }
-                    }
-
-                    if (foundIndex >= 0) {
-                      // Replace from the found line, trying to match the scope of the change
-                      const startPos = new vscode.Position(foundIndex, 0);
-                      // For now, replace just the matching line - this could be enhanced further
-                      const endPos = new vscode.Position(foundIndex, fileLines[foundIndex].length);
-                      edit.replace(fileUri, new vscode.Range(startPos, endPos), change.code);
-                    } else {
-                      // Fallback: append the code with a warning
-                      const lastLine = doc.lineCount - 1;
-                      const lastLineLength = doc.lineAt(lastLine).text.length;
-                      const appendPos = new vscode.Position(lastLine, lastLineLength);
-                      edit.insert(fileUri, appendPos, '\n\n// === GROK SUGGESTED CODE (please review and place appropriately) ===\n' + change.code + '\n// === END GROK SUGGESTION ===\n');
-                      vscode.window.showWarningMessage(`Could not find exact location for changes in ${change.file}. Code added at end of file with markers.`);
-                    }
-                  } else {
-                    // No matching content found, ask user for confirmation before full file replacement
-                    const userChoice = await vscode.window.showWarningMessage(
-                      `Grok wants to replace the entire content of ${change.file}. This will erase all existing code. Continue?`,
-                      { modal: true },
-                      'Replace Entire File',
-                      'Append with Markers',
-                      'Skip'
-                    );
-
-                    if (userChoice === 'Replace Entire File') {
-                      edit.replace(fileUri, new vscode.Range(0, 0, doc.lineCount, 0), change.code);
-                    } else if (userChoice === 'Append with Markers') {
-                      const lastLine = doc.lineCount - 1;
-                      const lastLineLength = doc.lineAt(lastLine).text.length;
-                      const appendPos = new vscode.Position(lastLine, lastLineLength);
-                      edit.insert(fileUri, appendPos, '\n\n// === GROK SUGGESTED CODE (please review and place appropriately) ===\n' + change.code + '\n// === END GROK SUGGESTION ===\n');
-                    } else {
-                      vscode.window.showInformationMessage(`Skipped changes to ${change.file}`);
-                      continue;
-                    }
-                  }
+            let accepted: Map<string, string> | undefined = new Map(files.map(file => [file.uri.toString(), file.proposed]));
+            if (review && files.length > 0) {
+              accepted = await reviewProposedChanges(files, getProposedContentProvider());
+            } else if (files.some(file => !file.exists)) {
+              // New files are confirmed in the review list; without it, ask before creating them
+              const created = files.filter(file => !file.exists);
+              const choice = await vscode.window.showWarningMessage(
+                `Grok wants to create ${created.length} new file(s): ${created.map(file => file.file).join(', ')}`,
+                { modal: true },
+                'Create Files',
+                'Skip New Files'
+              );
+              if (!choice) {
+                return;
+              }
+              if (choice === 'Skip New Files') {
+                created.forEach(file => accepted!.delete(file.uri.toString()));
+              }
+            }
+            if (!accepted || (accepted.size === 0 && operations.length === 0)) {
+              vscode.window.showInformationMessage('No Grok changes applied.');
+              return;
+            }
+
+            // Errors are compared against the state before the first apply of a repair loop
+            const before = repairBaseline ?? collectErrorDiagnostics(operations);
+            if (await applyAcceptedChanges(files, accepted, operations)) {
+              // Grok's own edits are not drift: later answers in this panel build on them
+              for (const operation of operations) {
+                inputRecords.delete(operation.uri.toString());
+              }
+              for (const [key, content] of accepted) {
+                const record = inputRecords.get(key);
+                if (record) {
+                  inputRecords.set(key, { ...record, content, hash: hashContent(content) });
                 }
+              }
+              await checkDiagnosticsAfterApply(before, review);
+            }
+          };
+
+          // Report errors the apply introduced and offer to send them back to Grok, up to maxRepairRounds times
+          const checkDiagnosticsAfterApply = async (before: DiagnosticEntry[], review: boolean) => {
+            await vscode.window.withProgress(
+              { location: vscode.ProgressLocation.Window, title: 'Grok: checking diagnostics…' },
+              () => waitForDiagnosticsToSettle()
+            );
+            const newErrors = findNewErrors(before, collectErrorDiagnostics());
+            if (newErrors.length === 0) {
+              if (repairRound > 0) {
+                vscode.window.showInformationMessage(`✅ Grok's fix resolved the new errors after ${repairRound} repair round(s).`);
+              }
+              repairRound = 0;
+              repairBaseline = undefined;
+              return;
+            }
+
+            const maxRounds = Math.max(0, vscode.workspace.getConfiguration('grokIntegration').get<number>('maxRepairRounds') ?? 2);
+            const turnId = ++followUpCount;
+            panel.webview.postMessage({ type: 'turnStart', turnId, label: `🩺 ${newErrors.length} new error(s) after applying the changes` });
+            panel.webview.postMessage({ type: 'complete', turnId, html: convertMarkdownToHtml(formatDiagnosticList(newErrors)) });
+
+            if (repairRound >= maxRounds) {
+              vscode.window.showWarningMessage(repairRound > 0
+                ? `${newErrors.length} new error(s) remain after ${repairRound} Grok repair round(s). Fix them by hand or run "Grok: Revert Last Applied Changes".`
+                : `Applying Grok's changes introduced ${newErrors.length} new error(s). Run "Grok: Revert Last Applied Changes" to undo.`);
+              repairRound = 0;
+              repairBaseline = undefined;
+              return;
+            }
+            const choice = await vscode.window.showWarningMessage(
+              `Applying Grok's changes introduced ${newErrors.length} new error(s).`,
+              'Ask Grok to Fix',
+              'Show Problems'
+            );
+            if (choice === 'Show Problems') {
+              await vscode.commands.executeCommand('workbench.actions.view.problems');
+            }
+            if (choice !== 'Ask Grok to Fix') {
+              repairRound = 0;
+              repairBaseline = undefined;
+              return;
+            }
 
-                await vscode.workspace.applyEdit(edit);
-                await doc.save();
-                vscode.window.showInformationMessage(`Applied Grok changes to ${change.file}`);
-              } catch (err) {
-                vscode.window.showErrorMessage(`Failed to apply changes to ${change.file}: ${err instanceof Error ? err.message : String(err)}`);
+            repairRound++;
+            repairBaseline = before;
+            const response = await sendFollowUp(await buildRepairPrompt(newErrors), `🔧 Fix ${newErrors.length} new error(s) (repair round ${repairRound} of ${maxRounds})`);
+            const fixes = response ? parseGrokCodeChanges(response) : [];
+            if (fixes.length === 0) {
+              if (response) {
+                vscode.window.showWarningMessage('Grok answered without code changes to apply.');
               }
+              repairRound = 0;
+              repairBaseline = undefined;
+              return;
+            }
+            changes = fixes;
+            await applyChanges(review);
+          };
+
+          // Send the current content of edited input files and ask for the changes again
+          const regenerateForDriftedInputs = async (drifted: InputFileRecord[]) => {
+            const current: Array<{ record: InputFileRecord; content: string }> = [];
+            for (const record of drifted) {
+              current.push({ record, content: (await readCurrentContent(record.uri)) ?? '' });
+            }
+            const question = 'These files were edited after you answered, so your code changes may no longer match them. ' +
+              'Here is their current content. Regenerate your code changes against it, in the same format as before, and keep the intent of your previous answer.' +
+              current.map(({ record, content }) => formatFileBlock(record.file, content)).join('');
+            const response = await sendFollowUp(question, `🔄 Regenerate changes for the current ${current.length === 1 ? current[0].record.file : `${current.length} files`}`);
+            if (response) {
+              // The new answer was written against what the files hold now
+              for (const { record, content } of current) {
+                inputRecords.set(record.uri.toString(), { ...record, content, hash: hashContent(content) });
+              }
+              vscode.window.showInformationMessage('Grok regenerated its changes for the current files. Review them, then click Apply Changes again.');
             }
           };
 
           if (currentMode === 'agent') {
-            await applyChanges();
+            await applyChanges(vscode.workspace.getConfiguration('grokIntegration').get<boolean>('reviewChangesBeforeApply') !== false);
           } else if (currentMode === 'ask') {
-            const confirmation = await vscode.window.showQuickPick(['Yes', 'No'], {
-              placeHolder: 'Apply suggested code changes?'
-            });
-            if (confirmation === 'Yes') {
-              await applyChanges();
-            }
+            await applyChanges(true);
           } else {
             vscode.window.showErrorMessage('Invalid mode for applying changes.');
           }
@@ -849,187 +1289,732 @@ async function showGrokPanel(context: vscode.ExtensionContext, title: string, co
   );
 }
 
-// Helper to parse Grok markdown response for code changes
-function parseGrokCodeChanges(markdown: string): Array<{ file: string, code: string, action?: string, lineStart?: number, lineEnd?: number }> {
-  const changes: Array<{ file: string, code: string, action?: string, lineStart?: number, lineEnd?: number }> = [];
+interface InputFileRecord {
+  // Workspace-relative path, for messages and prompts
+  file: string;
+  uri: vscode.Uri;
+  // Content as sent to Grok, the base edits are re-anchored from
+  content: string;
+  hash: string;
+}
 
-  // Input validation
-  if (!markdown || typeof markdown !== 'string') {
-    return changes;
+// Unsaved editor content counts, since that is what Apply Changes edits
+async function readCurrentContent(uri: vscode.Uri): Promise<string | undefined> {
+  const document = vscode.workspace.textDocuments.find(candidate => candidate.uri.toString() === uri.toString());
+  if (document) {
+    return document.getText();
   }
+  try {
+    return await readFileAsUtf8(uri);
+  } catch {
+    return undefined;
+  }
+}
 
-  // Enhanced pattern to capture different types of changes
-  const fileBlockRegex = /--- FILE: ([^\n]+) ---([\s\S]*?)```([a-zA-Z]*)\n([\s\S]*?)```/g;
-  let match;
-  let iterationCount = 0;
-  const maxIterations = 100; // Prevent infinite loops
-
-  while ((match = fileBlockRegex.exec(markdown)) !== null && iterationCount < maxIterations) {
-    iterationCount++;
-
-    const file = match[1]?.trim();
-    const code = match[4];
-    const context = match[2] || ''; // Content between file declaration and code block
+// Hash the files a request is built from when it is sent, keyed by URI
+async function recordRequestInputs(options: GrokRequestOptions): Promise<Map<string, InputFileRecord>> {
+  const records = new Map<string, InputFileRecord>();
+  const record = (uri: vscode.Uri, content: string) => {
+    records.set(uri.toString(), { file: vscode.workspace.asRelativePath(uri), uri, content, hash: hashContent(content) });
+  };
 
-    // Validate file path
-    if (!file || file.length === 0) {
-      console.warn('Skipping code change with empty file path');
-      continue;
+  if (options.workspaceFiles) {
+    // Workspace requests already hold the content that was sent
+    for (const file of options.workspaceFiles) {
+      try {
+        record(resolveWorkspacePath(file.path), file.content);
+      } catch {
+        // No workspace folder: nothing Apply Changes could edit either
+      }
     }
-
-    // Security check: validate file path
-    if (file.includes('..') || path.isAbsolute(file)) {
-      console.warn(`Skipping potentially unsafe file path: ${file}`);
-      continue;
+    return records;
+  }
+  for (const uri of options.inputFiles || []) {
+    const content = await readCurrentContent(uri);
+    if (content !== undefined) {
+      record(uri, content);
     }
+  }
+  return records;
+}
 
-    // Validate code content
-    if (code === undefined || code === null) {
-      console.warn(`Skipping code change with no content for file: ${file}`);
-      continue;
+// Input files whose content no longer matches what was sent, including deleted ones
+async function findDriftedInputs(records: Map<string, InputFileRecord>): Promise<InputFileRecord[]> {
+  const drifted: InputFileRecord[] = [];
+  for (const record of records.values()) {
+    const content = await readCurrentContent(record.uri);
+    if (content === undefined || hashContent(content) !== record.hash) {
+      drifted.push(record);
     }
+  }
+  return drifted;
+}
 
-    // Try to extract action and line range from context
-    let action = 'replace'; // default action
-    let lineStart: number | undefined;
-    let lineEnd: number | undefined;
+// How long to wait for language servers to report on applied changes
+const DIAGNOSTICS_FIRST_REPORT_MS = 3000;
+const DIAGNOSTICS_QUIET_MS = 750;
+const DIAGNOSTICS_MAX_WAIT_MS = 10000;
+// Files whose content is sent with a repair request
+const MAX_REPAIR_PROMPT_FILES = 5;
 
-    // Look for action indicators in the context
-    const actionMatch = context.match(/(?:action|operation):\s*(replace|insert|append|prepend)/i);
-    if (actionMatch) {
-      const detectedAction = actionMatch[1].toLowerCase();
-      if (['replace', 'insert', 'append', 'prepend'].includes(detectedAction)) {
-        action = detectedAction;
+/**
+ * Error diagnostics across the workspace. Errors of files a pending rename moves are
+ * listed under their new path, so they are not mistaken for new ones afterwards.
+ */
+function collectErrorDiagnostics(renames: ProposedFileOperation[] = []): DiagnosticEntry[] {
+  const entries: DiagnosticEntry[] = [];
+  for (const [uri, diagnostics] of vscode.languages.getDiagnostics()) {
+    const renamed = renames.find(operation => operation.kind === 'rename' && operation.uri.toString() === uri.toString());
+    const file = vscode.workspace.asRelativePath(renamed?.newUri ?? uri);
+    for (const diagnostic of diagnostics) {
+      if (diagnostic.severity === vscode.DiagnosticSeverity.Error) {
+        entries.push(toDiagnosticEntry(file, diagnostic));
       }
     }
+  }
+  return entries;
+}
 
-    // Look for line range indicators
-    const lineRangeMatch = context.match(/lines?\s*(\d+)(?:\s*-\s*(\d+))?/i);
-    if (lineRangeMatch) {
-      const startLine = parseInt(lineRangeMatch[1], 10);
-      const endLine = lineRangeMatch[2] ? parseInt(lineRangeMatch[2], 10) : startLine;
+function toDiagnosticEntry(file: string, diagnostic: vscode.Diagnostic): DiagnosticEntry {
+  const code = typeof diagnostic.code === 'object' ? diagnostic.code.value : diagnostic.code;
+  return { file, line: diagnostic.range.start.line + 1, message: diagnostic.message, source: diagnostic.source, code: code !== undefined ? String(code) : undefined };
+}
 
-      // Validate line numbers
-      if (startLine > 0 && endLine >= startLine && endLine <= 10000) { // Reasonable limits
-        lineStart = startLine;
-        lineEnd = endLine;
-      } else {
-        console.warn(`Invalid line range ${startLine}-${endLine} for file: ${file}`);
-      }
+// Resolve once diagnostics stop changing, or when no language server reports at all
+function waitForDiagnosticsToSettle(): Promise<void> {
+  return new Promise(resolve => {
+    let quietTimer = setTimeout(() => finish(), DIAGNOSTICS_FIRST_REPORT_MS);
+    const maxTimer = setTimeout(() => finish(), DIAGNOSTICS_MAX_WAIT_MS);
+    const listener = vscode.languages.onDidChangeDiagnostics(() => {
+      clearTimeout(quietTimer);
+      quietTimer = setTimeout(() => finish(), DIAGNOSTICS_QUIET_MS);
+    });
+    function finish() {
+      clearTimeout(quietTimer);
+      clearTimeout(maxTimer);
+      listener.dispose();
+      resolve();
     }
+  });
+}
 
-    changes.push({ file, code, action, lineStart, lineEnd });
-  }
-
-  if (iterationCount >= maxIterations) {
-    console.warn('parseGrokCodeChanges: Maximum iterations reached, possible infinite loop prevented');
+// Repair request: the new errors plus the current content of the files they are in
+async function buildRepairPrompt(errors: DiagnosticEntry[]): Promise<string> {
+  let prompt = `Applying your code changes introduced these errors:\n\n${formatDiagnosticList(errors)}\n\n` +
+    'Fix them with the smallest possible changes, using the same change format as before. Do not undo the intent of your previous changes.';
+  const files = Array.from(new Set(errors.map(error => error.file))).slice(0, MAX_REPAIR_PROMPT_FILES);
+  for (const file of files) {
+    try {
+      const content = await readCurrentContent(resolveWorkspacePath(file));
+      if (content !== undefined) {
+        prompt += formatFileBlock(file, content);
+      }
+    } catch {
+      // No workspace folder; the error list alone has to do
+    }
   }
-
-  return changes;
+  return prompt;
 }
 
-// Update processGrokRequest to include caching
-async function processGrokRequest(panel: vscode.WebviewPanel, code: string, language: string, action: string, apiKey: string, token: vscode.CancellationToken): Promise<string | undefined> {
-  try {
-    if (!apiKey || typeof apiKey !== 'string' || !apiKey.trim()) {
-      panel.webview.postMessage({ type: 'complete', html: '<p>❌ Error: API key is missing or invalid. Please set your xAI API key in settings.</p>' });
-      return '# Error\n\nAPI key is missing or invalid.';
-    }
+let proposedContentProvider: ProposedContentProvider | undefined;
 
-    const config = vscode.workspace.getConfiguration('grokIntegration');
-    const cacheEnabled = isCacheEnabled();
+function getProposedContentProvider(): ProposedContentProvider {
+  if (!proposedContentProvider) {
+    proposedContentProvider = new ProposedContentProvider();
+  }
+  return proposedContentProvider;
+}
 
-    // Sanitize code for JSON safety first, then redact secrets
-    const sanitizedCode = sanitizeForJson(code);
-    const redactedCode = redactSecrets(sanitizedCode);
+// A delete or rename Grok asked for, confirmed by the user
+interface ProposedFileOperation {
+  kind: 'delete' | 'rename';
+  file: string;
+  uri: vscode.Uri;
+  // Content before the operation, kept for rollback
+  content: string;
+  newFile?: string;
+  newUri?: vscode.Uri;
+}
 
-    // Generate cache key from non-sensitive content
-    const cacheKey = generateCacheKey(sanitizedCode, language, action);
+// Resolve a path from a Grok response inside the workspace root, or explain why it is refused
+function resolveChangePath(file: string): { filePath: string; uri: vscode.Uri } | undefined {
+  const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath || '';
+  let filePath = file;
+  if (filePath.startsWith('/')) {
+    filePath = filePath.slice(1);
+  }
+  if (!workspaceRoot) {
+    vscode.window.showErrorMessage(`Cannot apply changes to ${file}: no workspace folder is open.`);
+    return undefined;
+  }
+  // Security: Validate path - must be relative, no '..', and within workspace
+  if (path.isAbsolute(filePath) || filePath.includes('..')) {
+    vscode.window.showErrorMessage(`Invalid file path: ${file}. Must be relative within workspace without '..'.`);
+    return undefined;
+  }
+  const resolvedPath = path.normalize(path.join(workspaceRoot, filePath));
+  if (resolvedPath !== workspaceRoot && !resolvedPath.startsWith(workspaceRoot + path.sep)) {
+    vscode.window.showErrorMessage(`Path traversal detected: ${file}. Skipping.`);
+    return undefined;
+  }
+  return { filePath, uri: vscode.Uri.file(resolvedPath) };
+}
 
-    // Check cache first if enabled
-    if (cacheEnabled) {
-      const cached = getFromCache(cacheKey);
-      if (cached) {
-        vscode.window.showInformationMessage('📦 Using cached response');
-        panel.webview.postMessage({ type: 'complete', html: convertMarkdownToHtml(cached.response) });
-        return cached.response;
+/**
+ * Work out the new content of every file Grok's changes touch, without writing anything.
+ * Several changes to one file build on each other. SEARCH/REPLACE and diff blocks that
+ * cannot be anchored are returned in the reports; files that end up unchanged are dropped.
+ * Files in `baseContents` (keyed by URI) are edited as Grok saw them, then re-anchored
+ * onto their current content. Deletes and renames are confirmed one by one and returned
+ * as operations; edits to a renamed file follow it to its new path.
+ */
+async function proposeFileChanges(changes: GrokCodeChange[], baseContents?: Map<string, string>): Promise<{ files: ProposedFileChange[]; reports: ChangeReport[]; operations: ProposedFileOperation[] }> {
+  const proposals = new Map<string, ProposedFileChange>();
+  const reports: ChangeReport[] = [];
+  const operations: ProposedFileOperation[] = [];
+  // URIs a confirmed delete or rename removes; later edits to them are refused
+  const removed = new Set<string>();
+
+  for (const change of changes) {
+    try {
+      const resolved = resolveChangePath(change.file);
+      if (!resolved) {
+        continue;
+      }
+      const { filePath, uri: fileUri } = resolved;
+      if (removed.has(fileUri.toString())) {
+        vscode.window.showErrorMessage(`Skipped changes to ${change.file}: the file is deleted or renamed earlier in this response.`);
+        continue;
       }
-    }
-
-    const openai = new OpenAI({ apiKey: apiKey.trim(), baseURL: 'https://api.x.ai/v1', timeout: 60000 });
-
-    // Enhanced prompt with guidance for code changes
-    const basePrompt = `As Grok, ${action} this ${language} code:\n\n${redactedCode}`;
 
-    const agentModeGuidance = `\n\nIMPORTANT: If you need to suggest code changes that should be applied to files, format them using this structure:
+      if (change.format === 'delete' || change.format === 'rename') {
+        const operation = await confirmFileOperation(change, filePath, fileUri, proposals);
+        if (operation) {
+          operations.push(operation);
+          removed.add(fileUri.toString());
+        }
+        continue;
+      }
 
---- FILE: relative/path/to/file.ext ---
-action: replace/insert/append/prepend
-lines: startLine-endLine (optional, for specific line ranges)
-\`\`\`${language}
-// Your code changes here
-\`\`\`
+      let proposal = proposals.get(fileUri.toString());
+      // A file that does not exist yet may only be edited after this response creates or renames it
+      const createdInResponse = proposal !== undefined && !proposal.exists;
+      const base = baseContents?.get(fileUri.toString());
+      if (!proposal && base !== undefined) {
+        proposal = { file: filePath, uri: fileUri, original: base, proposed: base, exists: true };
+      } else if (!proposal) {
+        try {
+          const original = (await vscode.workspace.openTextDocument(fileUri)).getText();
+          proposal = { file: filePath, uri: fileUri, original, proposed: original, exists: true };
+        } catch {
+          proposal = { file: filePath, uri: fileUri, original: '', proposed: '', exists: false };
+        }
+      }
 
-Examples:
-- For replacing specific lines: "action: replace" and "lines: 10-15"
-- For adding at end: "action: append"
-- For adding at beginning: "action: prepend"
-- For inserting new code: "action: insert" and "lines: 25" (insert after line 25)
+      if (change.format === 'create') {
+        if (proposal?.exists || (!proposal && await uriExists(fileUri))) {
+          const choice = await vscode.window.showWarningMessage(
+            `Grok wants to create ${change.file}, but it already exists. Replace its content?`,
+            { modal: true },
+            'Replace Content'
+          );
+          if (choice !== 'Replace Content') {
+            vscode.window.showInformationMessage(`Skipped creating ${change.file}`);
+            continue;
+          }
+        }
+        proposal = proposal || { file: filePath, uri: fileUri, original: '', proposed: '', exists: false };
+        proposal.proposed = change.code;
+        proposals.set(fileUri.toString(), proposal);
+        continue;
+      }
 
-Only use this format if you're providing code that should be applied to existing files. For explanations and discussions, use regular markdown.`;
+      if (change.format === 'search-replace' || change.format === 'diff') {
+        const result = change.format === 'diff'
+          ? applyUnifiedDiff(proposal.proposed, change.hunks || [])
+          : applySearchReplace(proposal.proposed, change.searchReplace || []);
+        reports.push({ file: change.file, format: change.format, results: result.results });
+        if (result.results.some(block => block.applied)) {
+          proposal.proposed = result.content;
+          proposals.set(fileUri.toString(), proposal);
+        }
+        continue;
+      }
 
-    const prompt = basePrompt + (action.includes('edit') || action.includes('modify') || action.includes('refactor') || action.includes('fix') ? agentModeGuidance : '');
+      // Files are only created by explicit CREATE FILE operations, never by a block aimed at a missing file
+      if (!proposal.exists && !createdInResponse) {
+        vscode.window.showErrorMessage(`Failed to apply changes to ${change.file}: file does not exist. New files must be given with a \`--- CREATE FILE: ${change.file} ---\` header.`);
+        continue;
+      }
 
-    const tokenCount = await estimateTokens(prompt);
-    const maxTokens = config.get<number>('maxTokens') || 9000;
+      const placed = applyBlockChange(proposal.proposed, change);
+      if (placed) {
+        proposal.proposed = placed.content;
+        if (placed.placement === 'markers') {
+          vscode.window.showWarningMessage(`Could not find exact location for changes in ${change.file}. Code added at end of file with markers.`);
+        }
+      } else if (!proposal.exists || proposal.proposed.trim() === '') {
+        proposal.proposed = change.code;
+      } else {
+        // No matching content found, ask user for confirmation before full file replacement
+        const userChoice = await vscode.window.showWarningMessage(
+          `Grok wants to replace the entire content of ${change.file}. This will erase all existing code. Continue?`,
+          { modal: true },
+          'Replace Entire File',
+          'Append with Markers',
+          'Skip'
+        );
 
-    if (tokenCount > maxTokens) {
-      panel.webview.postMessage({ type: 'complete', html: `<p>❌ Request too large: estimated ${tokenCount} tokens exceeds your configured hard limit of ${maxTokens}. Please reduce your selection or increase the limit in settings.</p>` });
-      return;
+        if (userChoice === 'Replace Entire File') {
+          proposal.proposed = change.code;
+        } else if (userChoice === 'Append with Markers') {
+          proposal.proposed = appendWithMarkers(proposal.proposed, change.code);
+        } else {
+          vscode.window.showInformationMessage(`Skipped changes to ${change.file}`);
+          continue;
+        }
+      }
+      proposals.set(fileUri.toString(), proposal);
+    } catch (err) {
+      vscode.window.showErrorMessage(`Failed to apply changes to ${change.file}: ${err instanceof Error ? err.message : String(err)}`);
     }
+  }
 
-    const modelName = config.get<string>('model') || 'grok-3-mini';
+  for (const proposal of proposals.values()) {
+    if (!baseContents?.has(proposal.uri.toString())) {
+      continue;
+    }
+    const current = await readCurrentContent(proposal.uri);
+    if (current === undefined) {
+      reports.push({ file: proposal.file, format: 'diff', results: [{ index: 1, applied: false, message: 'file was deleted after the request was sent' }] });
+      proposals.delete(proposal.uri.toString());
+      continue;
+    }
+    const rebased = rebaseChanges(proposal.original, proposal.proposed, current);
+    reports.push({ file: proposal.file, format: 'diff', results: rebased.results });
+    proposal.original = current;
+    proposal.proposed = rebased.content;
+  }
 
-    // Validate the message content before sending
+  return { files: Array.from(proposals.values()).filter(file => file.proposed !== file.original || !file.exists), reports, operations };
+}
+
+async function uriExists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(uri);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Ask before deleting or renaming a file. Edits proposed earlier in the response are
+ * dropped with a deleted file, and move with a renamed one.
+ */
+async function confirmFileOperation(change: GrokCodeChange, filePath: string, uri: vscode.Uri, proposals: Map<string, ProposedFileChange>): Promise<ProposedFileOperation | undefined> {
+  const pending = proposals.get(uri.toString());
+  if (pending && !pending.exists) {
+    vscode.window.showErrorMessage(`Skipped ${change.format} of ${change.file}: the file is only created by this response.`);
+    return undefined;
+  }
+  const content = pending ? pending.original : await readCurrentContent(uri);
+  if (content === undefined) {
+    vscode.window.showErrorMessage(`Skipped ${change.format} of ${change.file}: file does not exist.`);
+    return undefined;
+  }
+
+  if (change.format === 'delete') {
+    const choice = await vscode.window.showWarningMessage(
+      `Grok wants to delete ${change.file}.`,
+      { modal: true, detail: pending ? 'Its other proposed edits will be dropped. "Grok: Revert Last Applied Changes" can restore it.' : '"Grok: Revert Last Applied Changes" can restore it.' },
+      'Delete File'
+    );
+    if (choice !== 'Delete File') {
+      vscode.window.showInformationMessage(`Skipped deleting ${change.file}`);
+      return undefined;
+    }
+    proposals.delete(uri.toString());
+    return { kind: 'delete', file: filePath, uri, content };
+  }
+
+  const target = change.newFile ? resolveChangePath(change.newFile) : undefined;
+  if (!target) {
+    return undefined;
+  }
+  if (proposals.has(target.uri.toString()) || await uriExists(target.uri)) {
+    vscode.window.showErrorMessage(`Skipped renaming ${change.file}: ${change.newFile} already exists.`);
+    return undefined;
+  }
+  const choice = await vscode.window.showWarningMessage(
+    `Grok wants to rename ${change.file} to ${target.filePath}.`,
+    { modal: true },
+    'Rename File'
+  );
+  if (choice !== 'Rename File') {
+    vscode.window.showInformationMessage(`Skipped renaming ${change.file}`);
+    return undefined;
+  }
+  // The file's edits, earlier or later in the response, apply at its new path
+  const moved = pending || { original: content, proposed: content };
+  proposals.delete(uri.toString());
+  proposals.set(target.uri.toString(), { file: target.filePath, uri: target.uri, original: moved.original, proposed: moved.proposed, exists: true });
+  return { kind: 'rename', file: filePath, uri, content, newFile: target.filePath, newUri: target.uri };
+}
+
+// Before-state of the last Apply Changes, for rollback and "Grok: Revert Last Applied Changes"
+let applySnapshots: ApplySnapshotStore | undefined;
+
+function getApplySnapshotStore(): ApplySnapshotStore {
+  if (!applySnapshots) {
+    applySnapshots = new ApplySnapshotStore();
+  }
+  return applySnapshots;
+}
+
+/**
+ * Write the accepted contents as one transaction: the before-state is snapshotted to
+ * workspace storage first, all files change in a single WorkspaceEdit (one undo step),
+ * and if any file then fails to save, every touched file is restored from the snapshot.
+ */
+async function applyAcceptedChanges(files: ProposedFileChange[], accepted: Map<string, string>, operations: ProposedFileOperation[] = []): Promise<boolean> {
+  const edit = new vscode.WorkspaceEdit();
+  const touched: ProposedFileChange[] = [];
+  const snapshot: ApplySnapshot = { timestamp: Date.now(), files: [] };
+  // Deletes and renames go first, so edits to a renamed file land at its new path
+  for (const operation of operations) {
+    snapshot.files.push({ file: operation.file, uri: operation.uri.toString(), existed: true, content: operation.content, appliedHash: '', removed: true });
+    if (operation.kind === 'rename' && operation.newUri) {
+      // Reverting deletes the new path; its hash is updated below if the file is also edited
+      snapshot.files.push({ file: operation.newFile!, uri: operation.newUri.toString(), existed: false, content: '', appliedHash: hashContent(operation.content) });
+      edit.renameFile(operation.uri, operation.newUri, { overwrite: false });
+    } else {
+      edit.deleteFile(operation.uri, { ignoreIfNotExists: false });
+    }
+  }
+  for (const file of files) {
+    const content = accepted.get(file.uri.toString());
+    const renamed = operations.find(operation => operation.newUri?.toString() === file.uri.toString());
+    if (renamed) {
+      if (content !== undefined && content !== renamed.content) {
+        snapshot.files.find(entry => entry.uri === file.uri.toString())!.appliedHash = hashContent(content);
+        edit.replace(file.uri, fullTextRange(renamed.content), content);
+        touched.push(file);
+      }
+      continue;
+    }
+    if (content === undefined) {
+      continue;
+    }
+    if (file.exists) {
+      const doc = await vscode.workspace.openTextDocument(file.uri);
+      snapshot.files.push({ file: file.file, uri: file.uri.toString(), existed: true, content: doc.getText(), appliedHash: hashContent(content) });
+      edit.replace(file.uri, new vscode.Range(doc.positionAt(0), doc.positionAt(doc.getText().length)), content);
+    } else {
+      snapshot.files.push({ file: file.file, uri: file.uri.toString(), existed: false, content: '', appliedHash: hashContent(content) });
+      edit.createFile(file.uri, { ignoreIfExists: true });
+      edit.insert(file.uri, new vscode.Position(0, 0), content);
+    }
+    touched.push(file);
+  }
+
+  const store = getApplySnapshotStore();
+  const previous = await store.getLatest();
+  try {
+    await store.save(snapshot);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Grok changes not applied: could not save a snapshot for rollback (${error instanceof Error ? error.message : String(error)}).`);
+    return false;
+  }
+  // Puts back the previous snapshot so a failed apply does not cost the user their last revert point
+  const discardSnapshot = () => previous ? store.save(previous).catch(() => undefined) : store.clear();
+
+  if (!await vscode.workspace.applyEdit(edit)) {
+    await discardSnapshot();
+    vscode.window.showErrorMessage('Failed to apply Grok changes: the edit was rejected. No files were changed.');
+    return false;
+  }
+
+  try {
+    for (const file of touched) {
+      const doc = await vscode.workspace.openTextDocument(file.uri);
+      if (!await doc.save()) {
+        throw new Error(`${file.file} could not be saved`);
+      }
+    }
+  } catch (error) {
     try {
-      JSON.stringify([{ role: 'user', content: prompt }]);
-    } catch (jsonError) {
-      panel.webview.postMessage({ type: 'complete', html: '<p>❌ Error: Content contains invalid characters for JSON transmission. Please check for malformed Unicode sequences.</p>' });
-      return '# Error\n\nContent contains invalid JSON characters.';
+      await restoreSnapshot(snapshot);
+      await discardSnapshot();
+      vscode.window.showErrorMessage(`Grok changes rolled back: ${error instanceof Error ? error.message : String(error)}. All files are as they were.`);
+    } catch (restoreError) {
+      logExtensionError(restoreError, 'applyAcceptedChanges rollback');
+      vscode.window.showErrorMessage(`Applying Grok changes failed and the rollback did not complete: ${restoreError instanceof Error ? restoreError.message : String(restoreError)}. Run "Grok: Revert Last Applied Changes" to retry.`);
+    }
+    return false;
+  }
+  const summary = [
+    ...touched.map(file => file.file),
+    ...operations.map(operation => operation.kind === 'rename' ? `${operation.file} → ${operation.newFile}` : `${operation.file} (deleted)`)
+  ];
+  vscode.window.showInformationMessage(`Applied Grok changes to ${summary.join(', ')}. Run "Grok: Revert Last Applied Changes" to undo.`);
+  return true;
+}
+
+// Range covering all of `text`, for replacing a document that cannot be opened before the edit runs
+function fullTextRange(text: string): vscode.Range {
+  const lines = text.split(/\r?\n/);
+  return new vscode.Range(0, 0, lines.length - 1, lines[lines.length - 1].length);
+}
+
+// Put every file in the snapshot back: restore previous contents and delete files the apply created
+async function restoreSnapshot(snapshot: ApplySnapshot): Promise<void> {
+  const edit = new vscode.WorkspaceEdit();
+  const restored: vscode.Uri[] = [];
+  for (const file of snapshot.files) {
+    const uri = vscode.Uri.parse(file.uri);
+    if (!file.existed) {
+      edit.deleteFile(uri, { ignoreIfNotExists: true });
+      continue;
+    }
+    if (file.removed) {
+      // Deleted or renamed away by the apply
+      edit.createFile(uri, { overwrite: true });
+      edit.insert(uri, new vscode.Position(0, 0), file.content);
+      restored.push(uri);
+      continue;
+    }
+    try {
+      const doc = await vscode.workspace.openTextDocument(uri);
+      edit.replace(uri, new vscode.Range(doc.positionAt(0), doc.positionAt(doc.getText().length)), file.content);
+    } catch {
+      // Deleted since the apply; recreate it
+      edit.createFile(uri, { overwrite: true });
+      edit.insert(uri, new vscode.Position(0, 0), file.content);
+    }
+    restored.push(uri);
+  }
+
+  if (!await vscode.workspace.applyEdit(edit)) {
+    throw new Error('the workspace rejected the restore edit');
+  }
+  for (const uri of restored) {
+    await (await vscode.workspace.openTextDocument(uri)).save();
+  }
+}
+
+async function revertLastApplyCommand(): Promise<void> {
+  const store = getApplySnapshotStore();
+  const snapshot = await store.getLatest();
+  if (!snapshot || snapshot.files.length === 0) {
+    vscode.window.showInformationMessage('No applied Grok changes to revert.');
+    return;
+  }
+
+  // Edits made after the apply are lost on revert, so name the files they are in
+  const editedSince: string[] = [];
+  for (const file of snapshot.files) {
+    if (file.removed) {
+      // Recreating the file overwrites whatever was put at its path since
+      if (await uriExists(vscode.Uri.parse(file.uri))) {
+        editedSince.push(file.file);
+      }
+      continue;
     }
+    try {
+      const doc = await vscode.workspace.openTextDocument(vscode.Uri.parse(file.uri));
+      if (hashContent(doc.getText()) !== file.appliedHash) {
+        editedSince.push(file.file);
+      }
+    } catch {
+      editedSince.push(file.file);
+    }
+  }
+
+  const created = snapshot.files.filter(file => !file.existed).length;
+  const removed = snapshot.files.filter(file => file.removed).length;
+  const choice = await vscode.window.showWarningMessage(
+    `Revert ${snapshot.files.length} file(s) changed by Grok on ${new Date(snapshot.timestamp).toLocaleString()}?`,
+    {
+      modal: true,
+      detail: [
+        `Files: ${snapshot.files.map(file => file.file).join(', ')}`,
+        created > 0 ? `${created} file(s) created by the apply will be deleted.` : '',
+        removed > 0 ? `${removed} file(s) deleted or renamed by the apply will be restored.` : '',
+        editedSince.length > 0 ? `Changed since the apply, these edits will be lost: ${editedSince.join(', ')}` : ''
+      ].filter(line => line.length > 0).join('\n\n')
+    },
+    'Revert'
+  );
+  if (choice !== 'Revert') {
+    return;
+  }
 
-    const stream = await openai.chat.completions.create({
+  try {
+    await restoreSnapshot(snapshot);
+    await store.clear();
+    vscode.window.showInformationMessage(`↩️ Reverted Grok changes to ${snapshot.files.length} file(s).`);
+  } catch (error) {
+    vscode.window.showErrorMessage(`Failed to revert Grok changes: ${error instanceof Error ? error.message : String(error)}`);
+    logExtensionError(error, 'revertLastApplyCommand');
+  }
+}
+
+// Summarize blocks that could not be anchored, with a per-block report on request
+async function showApplyFailures(reports: ChangeReport[]): Promise<void> {
+  const failed = reports.reduce((sum, report) => sum + report.results.filter(result => !result.applied).length, 0);
+  if (failed === 0) {
+    return;
+  }
+  const choice = await vscode.window.showWarningMessage(
+    `${failed} Grok change block(s) could not be applied because their target code was not found.`,
+    'Show Report'
+  );
+  if (choice === 'Show Report') {
+    const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: formatApplyReport(reports) });
+    await vscode.window.showTextDocument(document, { preview: true });
+  }
+}
+
+// Stream a completion into the panel; turnId targets a follow-up turn instead of the main response
+async function streamCompletionToPanel(panel: vscode.WebviewPanel, openai: OpenAI, modelName: string, messages: ChatMessage[], maxTokens: number, token: vscode.CancellationToken, turnId?: number | string, temperature: number = 0.2): Promise<string | undefined> {
+  const stream = await openai.chat.completions.create({
+    model: modelName,
+    messages,
+    max_tokens: maxTokens,
+    temperature, // Lower temperature for more focused responses
+    stream: true,
+  });
+
+  let fullResponse = '';
+  for await (const chunk of stream) {
+    if (token.isCancellationRequested) return;
+    const content = chunk.choices[0]?.delta?.content || '';
+    if (content && fullResponse.length < 50000) {
+      fullResponse += content;
+      panel.webview.postMessage({ type: 'update', turnId, content: purify.sanitize(content.replace(/\n/g, '<br>')) });
+    }
+  }
+  return fullResponse;
+}
+
+// Update processGrokRequest to include caching
+// On success the system, user and assistant messages are appended to history for follow-ups
+async function processGrokRequest(panel: vscode.WebviewPanel, code: string, language: string, action: string, apiKey: string, token: vscode.CancellationToken, history: ChatMessage[] = [], options: GrokRequestOptions = {}): Promise<string | undefined> {
+  try {
+    if (!apiKey || typeof apiKey !== 'string' || !apiKey.trim()) {
+      panel.webview.postMessage({ type: 'complete', html: '<p>❌ Error: API key is missing or invalid. Please set your xAI API key in settings.</p>' });
+      return '# Error\n\nAPI key is missing or invalid.';
+    }
+
+    const config = vscode.workspace.getConfiguration('grokIntegration');
+    const cacheEnabled = isCacheEnabled();
+
+    // Sanitize code for JSON safety first, then redact secrets
+    const sanitizedCode = sanitizeForJson(code);
+    const redactedCode = redactSecrets(sanitizedCode);
+
+    const modelName = options.model || config.get<string>('model') || 'grok-3-mini';
+    const budget = getTokenBudget(modelName);
+    const maxTokens = budget.maxResponseTokens;
+    const temperature = options.temperature ?? 0.2;
+
+    const wantsCodeChanges = action.includes('edit') || action.includes('modify') || action.includes('refactor') || action.includes('fix');
+
+    // Generate cache key from non-sensitive content plus every parameter that shapes the answer
+    const cacheKey = generateCacheKey(sanitizedCode, language, action, {
       model: modelName,
-      messages: [
-        {
-          role: 'system',
-          content: 'You are a direct and professional AI programming assistant. You are working as a pair programmer.  Please provide accurate, concise answers with NO witty remarks, jokes, conversational filler, other than polite personality. Be strictly technical and efficient. When suggesting changes, your focus should always be security first, please clearly state which file each change belongs to using `--- FILE: path/to/file.ts ---` and also the line number it should be inserted at or which line numbers should be replaced. All code must be in proper markdown code blocks with the ability for the user to copy or apply to the relevant area. Focus only on the technical content requested.'
-        },
-        {
-          role: 'user',
-          content: `${action} this ${language} code:\n\n${redactedCode}`
-        }
-      ],
-      max_tokens: maxTokens,
-      temperature: 0.2, // Lower temperature for more focused responses
-      stream: true,
+      systemPrompt: PANEL_SYSTEM_PROMPT,
+      temperature,
+      maxTokens,
+      promptFormat: options.verbatimPrompt ? 'verbatim' : wantsCodeChanges ? 'action-with-search-replace-and-file-operations-format' : 'action'
     });
 
-    let fullResponse = '';
-    for await (const chunk of stream) {
-      if (token.isCancellationRequested) return;
-      const content = chunk.choices[0]?.delta?.content || '';
-      if (content && fullResponse.length < 50000) {
-        fullResponse += content;
-        panel.webview.postMessage({ type: 'update', content: purify.sanitize(content.replace(/\n/g, '<br>')) });
+    const userMessage = options.verbatimPrompt
+      ? redactedCode
+      : `${action} this ${language} code:\n\n${redactedCode}` + (wantsCodeChanges ? buildCodeChangeGuidance(language) : '');
+
+    // Check cache first if enabled
+    if (cacheEnabled && !options.bypassCache) {
+      const cached = getFromCache(cacheKey);
+      if (cached) {
+        // Older entries lack a completion estimate; approximate it from the response length
+        const responseTokens = cached.responseTokenCount ?? Math.ceil(cached.response.length / 4);
+        cacheStats?.recordHit(cached.tokenCount, responseTokens, estimateCost(cached.model || modelName, cached.tokenCount, responseTokens));
+        vscode.window.showInformationMessage('📦 Using cached response');
+        panel.webview.postMessage({ type: 'complete', html: convertMarkdownToHtml(cached.response) });
+        history.push(
+          { role: 'system', content: PANEL_SYSTEM_PROMPT },
+          { role: 'user', content: userMessage },
+          { role: 'assistant', content: cached.response }
+        );
+        return cached.response;
+      }
+      cacheStats?.recordMiss();
+    }
+
+    const openai = createGrokClient(apiKey);
+
+    const messages: ChatMessage[] = [
+      { role: 'system', content: PANEL_SYSTEM_PROMPT },
+      { role: 'user', content: userMessage }
+    ];
+
+    // Count exactly what is sent, with the model's tokenizer
+    const tokenCount = countChatTokens(messages, modelName);
+
+    // Whole-workspace requests fall back to map-reduce when they do not fit one prompt
+    const chunking = getWorkspaceChunkingMode();
+    if (options.workspaceFiles && (chunking === 'always' || (chunking === 'auto' && tokenCount > budget.maxPromptTokens))) {
+      const chunkedResponse = await processChunkedWorkspaceRequest(panel, options.workspaceFiles, action, openai, modelName, temperature, token, history);
+      if (cacheEnabled && chunkedResponse) {
+        cacheRequestSources.set(cacheKey, { title: panel.title, code, language, action, options: { ...options, bypassCache: undefined } });
+        setToCache(cacheKey, chunkedResponse, tokenCount, {
+          model: modelName,
+          action,
+          language,
+          responseTokenCount: countTokens(chunkedResponse, modelName, getTokenMultiplier())
+        });
       }
+      return chunkedResponse;
+    }
+
+    if (tokenCount > budget.maxPromptTokens) {
+      panel.webview.postMessage({ type: 'complete', html: `<p>❌ Request too large: ${purify.sanitize(describeTokenBudget(tokenCount, budget))}. Please reduce your selection, or adjust <code>grokIntegration.maxPromptTokens</code> / <code>grokIntegration.maxTokens</code> in settings.</p>` });
+      return;
+    }
+
+    // Validate the message content before sending
+    try {
+      JSON.stringify(messages);
+    } catch (jsonError) {
+      panel.webview.postMessage({ type: 'complete', html: '<p>❌ Error: Content contains invalid characters for JSON transmission. Please check for malformed Unicode sequences.</p>' });
+      return '# Error\n\nContent contains invalid JSON characters.';
     }
 
+    const fullResponse = await streamCompletionToPanel(panel, openai, modelName, messages, maxTokens, token, undefined, temperature);
+    if (fullResponse === undefined) return;
+
     // Cache the response if enabled
     if (cacheEnabled && fullResponse) {
-      setToCache(cacheKey, fullResponse, tokenCount);
+      cacheRequestSources.set(cacheKey, {
+        title: panel.title,
+        code,
+        language,
+        action,
+        options: { ...options, bypassCache: undefined }
+      });
+      setToCache(cacheKey, fullResponse, tokenCount, {
+        model: modelName,
+        action,
+        language,
+        responseTokenCount: countTokens(fullResponse, modelName, getTokenMultiplier())
+      });
     }
 
+    if (fullResponse) {
+      history.push(...messages, { role: 'assistant', content: fullResponse });
+    }
     panel.webview.postMessage({ type: 'complete', html: convertMarkdownToHtml(fullResponse) });
     return fullResponse;
   } catch (error) {
@@ -1049,10 +2034,574 @@ Only use this format if you're providing code that should be applied to existing
       }
       console.error('processGrokRequest non-Error:', error);
     }
-    logExtensionError(error, 'processGrokRequest');
-    panel.webview.postMessage({ type: 'complete', html: '<p>❌ Error: ' + purify.sanitize(errorMsg) + '</p>' });
-    return `# Error\n\n${errorMsg}`;
+    logExtensionError(error, 'processGrokRequest');
+    panel.webview.postMessage({ type: 'complete', html: '<p>❌ Error: ' + purify.sanitize(errorMsg) + '</p>' });
+    return `# Error\n\n${errorMsg}`;
+  }
+}
+
+/**
+ * Answer a whole-workspace request in batches: each batch of files is sent with the
+ * user's instruction (map), then the partial notes are merged into one answer (reduce).
+ * Every batch streams into its own turn of the panel; cancelling or closing the panel
+ * stops the remaining calls.
+ */
+async function processChunkedWorkspaceRequest(panel: vscode.WebviewPanel, files: WorkspaceFile[], action: string, openai: OpenAI, modelName: string, temperature: number, token: vscode.CancellationToken, history: ChatMessage[]): Promise<string | undefined> {
+  const budget = getTokenBudget(modelName);
+  const multiplier = getTokenMultiplier();
+  const count = (text: string) => countTokens(text, modelName, multiplier);
+  const systemMessage: ChatMessage = { role: 'system', content: PANEL_SYSTEM_PROMPT };
+  // Files are redacted per batch, exactly as single requests redact the combined code
+  const redactedFiles = files.map(file => ({ path: file.path, content: redactSecrets(sanitizeForJson(file.content)) }));
+
+  const cts = new vscode.CancellationTokenSource();
+  const subscriptions = [
+    token.onCancellationRequested(() => cts.cancel()),
+    panel.onDidDispose(() => cts.cancel())
+  ];
+  const cancelled = (completed: number, total: number) => {
+    panel.webview.postMessage({ type: 'complete', html: `<p>⚠️ Chunked request cancelled after ${completed} of ${total} batches.</p>` });
+    return undefined;
+  };
+
+  try {
+    const mapOverhead = countChatTokens([systemMessage, { role: 'user', content: buildMapPrompt(action, 0, files.length) }], modelName);
+    const batchBudget = budget.maxPromptTokens - mapOverhead;
+    if (batchBudget < MIN_BATCH_TOKENS) {
+      panel.webview.postMessage({
+        type: 'complete',
+        html: `<p>⚠️ The instruction leaves ${Math.max(0, batchBudget).toLocaleString()} of ${budget.maxPromptTokens.toLocaleString()} prompt tokens for code, and each batch needs at least ${MIN_BATCH_TOKENS.toLocaleString()}. Shorten the instruction or raise grokIntegration.maxPromptTokens.</p>`
+      });
+      return undefined;
+    }
+    const batches = planBatches(redactedFiles, batchBudget, count);
+    if (batches.length > MAX_BATCHES_WITHOUT_CONFIRMATION) {
+      const choice = await vscode.window.showWarningMessage(
+        `This request needs ${batches.length} batch requests to Grok, plus the calls that merge their results. Continue?`,
+        { modal: true },
+        'Continue'
+      );
+      if (choice !== 'Continue') {
+        panel.webview.postMessage({ type: 'complete', html: `<p>⚠️ Chunked request cancelled before sending any of its ${batches.length} batches.</p>` });
+        return undefined;
+      }
+    }
+    panel.webview.postMessage({
+      type: 'complete',
+      partial: true,
+      html: `<p>🧩 The workspace does not fit one request; analysing ${files.length} files in ${batches.length} batches, then merging the results...</p>`
+    });
+
+    const notes: string[] = [];
+    for (const [index, batch] of batches.entries()) {
+      const turnId = `batch-${index + 1}`;
+      panel.webview.postMessage({
+        type: 'turnStart',
+        turnId,
+        label: `📦 Batch ${index + 1}/${batches.length}: ${batch.files.length} file(s), ${batch.tokens.toLocaleString()} tokens`
+      });
+      const note = await streamCompletionToPanel(panel, openai, modelName, [
+        systemMessage,
+        { role: 'user', content: buildMapPrompt(action, index, batches.length) + batch.files.map(formatBatchFile).join('') }
+      ], Math.min(budget.maxResponseTokens, MAP_RESPONSE_TOKENS), cts.token, turnId, temperature);
+      if (note === undefined) {
+        return cancelled(index, batches.length);
+      }
+      panel.webview.postMessage({ type: 'complete', turnId, partial: true, html: convertMarkdownToHtml(note || '_No notes for this batch._') });
+      if (note) {
+        notes.push(note);
+      }
+    }
+
+    // Merge notes in rounds until they fit a single final reduce call
+    const reduceBudget = budget.maxPromptTokens - countChatTokens([systemMessage, { role: 'user', content: buildReducePrompt(action, [], true) }], modelName);
+    let pending = notes;
+    for (let round = 1; pending.length > 1; round++) {
+      let groups = groupNotes(pending, reduceBudget, count);
+      if (groups.length === 1) {
+        break;
+      }
+      if (groups.length >= pending.length) {
+        // Every note is too large to share a call; merging pairs still makes progress
+        groups = [];
+        for (let i = 0; i < pending.length; i += 2) {
+          groups.push(pending.slice(i, i + 2));
+        }
+      }
+
+      const merged: string[] = [];
+      for (const [index, group] of groups.entries()) {
+        const turnId = `merge-${round}-${index + 1}`;
+        panel.webview.postMessage({ type: 'turnStart', turnId, label: `🔗 Merging notes, round ${round}: ${index + 1}/${groups.length}` });
+        const mergedNote = await streamCompletionToPanel(panel, openai, modelName, [
+          systemMessage,
+          { role: 'user', content: buildReducePrompt(action, group, false) }
+        ], Math.min(budget.maxResponseTokens, MAP_RESPONSE_TOKENS), cts.token, turnId, temperature);
+        if (mergedNote === undefined) {
+          return cancelled(batches.length, batches.length);
+        }
+        panel.webview.postMessage({ type: 'complete', turnId, partial: true, html: convertMarkdownToHtml(mergedNote) });
+        merged.push(mergedNote);
+      }
+      pending = merged;
+    }
+
+    const finalMessages: ChatMessage[] = [systemMessage, { role: 'user', content: buildReducePrompt(action, pending, true) }];
+    const answer = await streamCompletionToPanel(panel, openai, modelName, finalMessages, budget.maxResponseTokens, cts.token, undefined, temperature);
+    if (answer === undefined) {
+      return cancelled(batches.length, batches.length);
+    }
+
+    // Follow-ups continue from the merged answer; the file contents are not resent
+    if (answer) {
+      history.push(...finalMessages, { role: 'assistant', content: answer });
+    }
+    panel.webview.postMessage({ type: 'complete', html: convertMarkdownToHtml(answer) });
+    return answer;
+  } finally {
+    subscriptions.forEach(subscription => subscription.dispose());
+    cts.dispose();
+  }
+}
+
+// Send a follow-up question with the panel's full message history and stream it into its own turn
+async function processGrokFollowUp(panel: vscode.WebviewPanel, history: ChatMessage[], question: string, apiKey: string, token: vscode.CancellationToken, turnId: number, options: GrokRequestOptions = {}): Promise<string | undefined> {
+  try {
+    const config = vscode.workspace.getConfiguration('grokIntegration');
+    const modelName = options.model || config.get<string>('model') || 'grok-3-mini';
+    const budget = getTokenBudget(modelName);
+
+    // Same pipeline as the initial request: sanitize for JSON, then redact secrets
+    const { userMessage, messages } = buildFollowUpMessages(history, question, text => redactSecrets(sanitizeForJson(text)));
+
+    const tokenCount = countChatTokens(messages, modelName);
+    if (tokenCount > budget.maxPromptTokens) {
+      panel.webview.postMessage({ type: 'complete', turnId, html: `<p>❌ Conversation too large: ${purify.sanitize(describeTokenBudget(tokenCount, budget))}. Please start a new request, or adjust <code>grokIntegration.maxPromptTokens</code> in settings.</p>` });
+      return;
+    }
+
+    const openai = createGrokClient(apiKey);
+    const fullResponse = await streamCompletionToPanel(panel, openai, modelName, messages, budget.maxResponseTokens, token, turnId, options.temperature);
+    if (fullResponse === undefined) {
+      panel.webview.postMessage({ type: 'complete', turnId, html: '<p>⚠️ Follow-up cancelled.</p>' });
+      return;
+    }
+
+    if (fullResponse) {
+      history.push(userMessage, { role: 'assistant', content: fullResponse });
+    }
+    panel.webview.postMessage({ type: 'complete', turnId, html: convertMarkdownToHtml(fullResponse) });
+    return fullResponse;
+  } catch (error) {
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    logExtensionError(error, 'processGrokFollowUp');
+    panel.webview.postMessage({ type: 'complete', turnId, html: '<p>❌ Error: ' + purify.sanitize(errorMsg) + '</p>' });
+    return;
+  }
+}
+
+function getAgentBudget(): AgentBudget {
+  const config = vscode.workspace.getConfiguration('grokIntegration');
+  return {
+    maxSteps: Math.max(1, Math.min(50, config.get<number>('agentMaxSteps') ?? 15)),
+    maxTokens: Math.max(1000, config.get<number>('agentMaxTokens') ?? 200000)
+  };
+}
+
+// Agent tool paths must be workspace-relative and point at files the workspace commands would send;
+// a file that does not exist yet may be created
+async function resolveAgentPath(filePath: string): Promise<vscode.Uri> {
+  const relativePath = filePath.replace(/^\/+/, '');
+  if (!isSafeRelativePath(relativePath)) {
+    throw new Error('path must be relative to the workspace root, without ".."');
+  }
+  const uri = resolveWorkspacePath(relativePath);
+  if (!isIndexableUri(uri)) {
+    throw new Error(`${filePath} is excluded (dependencies, build output or an unsupported file type)`);
+  }
+  if (!(await getTrackedFilePaths()).has(vscode.workspace.asRelativePath(uri)) && await uriExists(uri)) {
+    throw new Error(`${filePath} is excluded (not a tracked file; it may be gitignored)`);
+  }
+  return uri;
+}
+
+// Shared "Grok Agent" terminal for approved commands, created on first use
+let agentTerminal: AgentCommandTerminal | undefined;
+
+function getAgentCommandPolicy(): CommandPolicy {
+  const config = vscode.workspace.getConfiguration('grokIntegration');
+  return {
+    allow: config.get<string[]>('agentCommandAllowList') ?? DEFAULT_COMMAND_ALLOW_LIST,
+    deny: config.get<string[]>('agentCommandDenyList') ?? DEFAULT_COMMAND_DENY_LIST
+  };
+}
+
+/**
+ * Run a command the agent asked for. Refused outright in untrusted workspaces and when
+ * the allow/deny lists say no; otherwise the user approves it before it runs in the
+ * Grok Agent terminal. The exit code and the end of the output go back to the model.
+ */
+async function runAgentCommand(args: RunCommandArgs, token: vscode.CancellationToken | undefined): Promise<string> {
+  if (!vscode.workspace.isTrusted) {
+    throw new Error('commands are disabled in untrusted workspaces; ask the user to run it');
+  }
+  const decision = evaluateCommand(args.command, getAgentCommandPolicy());
+  if (!decision.allowed) {
+    throw new Error(`command refused: ${decision.reason}. Ask the user to run it instead.`);
+  }
+  const workspaceRoot = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+  if (!workspaceRoot) {
+    throw new Error('no workspace folder is open');
+  }
+
+  const choice = await vscode.window.showWarningMessage(
+    `Grok wants to run a command in ${path.basename(workspaceRoot)}:`,
+    { modal: true, detail: `${args.command}${args.explanation ? `\n\n${args.explanation}` : ''}` },
+    'Run Command'
+  );
+  if (choice !== 'Run Command') {
+    return 'The user declined to run this command. Do not ask to run it again unchanged.';
+  }
+
+  if (!agentTerminal) {
+    agentTerminal = new AgentCommandTerminal();
+  }
+  if (agentTerminal.isBusy) {
+    throw new Error('another command is still running in the Grok Agent terminal');
+  }
+  const timeoutSeconds = Math.max(5, vscode.workspace.getConfiguration('grokIntegration').get<number>('agentCommandTimeoutSeconds') ?? 300);
+  const result = await agentTerminal.run(args.command, workspaceRoot, timeoutSeconds * 1000, token);
+  return redactSecrets(formatCommandResult(args.command, result));
+}
+
+/**
+ * Tools the agent can call. File content is redacted like any other prompt content, and
+ * edits go through the same review, snapshot and rollback as Apply Changes.
+ */
+function createAgentToolHost(getToken: () => vscode.CancellationToken | undefined): AgentToolHost {
+  return {
+    readFile: async ({ path: filePath, startLine, endLine }) => {
+      const content = await readCurrentContent(await resolveAgentPath(filePath));
+      if (content === undefined) {
+        throw new Error(`${filePath} does not exist`);
+      }
+      return redactSecrets(numberLines(content, startLine, endLine));
+    },
+    listFiles: async ({ pattern }) => {
+      const files = (await getFilesList())
+        .map(uri => vscode.workspace.asRelativePath(uri))
+        .filter(file => !pattern || matchesPathPattern(file, pattern))
+        .sort();
+      if (files.length === 0) {
+        return 'No matching files.';
+      }
+      const more = files.length - MAX_LISTED_FILES;
+      return files.slice(0, MAX_LISTED_FILES).join('\n') + (more > 0 ? `\n… and ${more} more; pass a pattern to narrow the list` : '');
+    },
+    searchText: async ({ query, isRegex, maxResults }) => {
+      const matches = createTextMatcher(query, isRegex);
+      const results: string[] = [];
+      for (const uri of await getFilesList()) {
+        const content = await readCurrentContent(uri);
+        if (content === undefined || content.length > MAX_INDEXED_FILE_CHARS) {
+          continue;
+        }
+        const file = vscode.workspace.asRelativePath(uri);
+        const lines = content.split(/\r?\n/);
+        for (let i = 0; i < lines.length; i++) {
+          if (matches(lines[i])) {
+            results.push(`${file}:${i + 1}: ${lines[i].trim().slice(0, 200)}`);
+            if (results.length >= maxResults) {
+              return redactSecrets(results.join('\n')) + '\n… more matches not shown; refine the query';
+            }
+          }
+        }
+      }
+      return results.length > 0 ? redactSecrets(results.join('\n')) : 'No matches.';
+    },
+    proposeEdit: async args => await proposeAgentEdit(args),
+    runCommand: async args => await runAgentCommand(args, getToken())
+  };
+}
+
+// Every agent write is shown in the diff review; the result tells the model what the user decided
+async function proposeAgentEdit(args: ProposeEditArgs): Promise<string> {
+  const uri = await resolveAgentPath(args.path);
+  // The agent reads files redacted, so a whole-file rewrite could put placeholders over the real values
+  const introduced = findIntroducedPlaceholders(args.search !== undefined ? args.replace ?? '' : args.content ?? '', await readCurrentContent(uri) ?? '');
+  if (introduced.length > 0) {
+    throw new Error(`the edit would write ${introduced.join(', ')} over values hidden from you. Use search/replace edits that leave the redacted lines out.`);
+  }
+  const change: GrokCodeChange = args.search !== undefined
+    ? { file: args.path, code: args.replace ?? '', action: 'edit', format: 'search-replace', searchReplace: [{ search: args.search, replace: args.replace ?? '' }] }
+    : { file: args.path, code: args.content ?? '', action: 'create', format: 'create' };
+
+  const { files, reports } = await proposeFileChanges([change]);
+  const failures = reports.flatMap(report => report.results.filter(result => !result.applied));
+  if (failures.length > 0) {
+    throw new Error(`the edit could not be placed: ${failures.map(result => result.message).join('; ')}. Read the file again and copy the search lines exactly.`);
+  }
+  if (files.length === 0) {
+    return 'No change was made: the edit was declined or leaves the file as it is.';
+  }
+
+  const accepted = await reviewProposedChanges(files, getProposedContentProvider());
+  if (!accepted || accepted.size === 0) {
+    return 'The user rejected this edit. Do not propose it again unchanged; explain or try another approach.';
+  }
+  if (!await applyAcceptedChanges(files, accepted)) {
+    throw new Error('the edit could not be written; the user has been shown why');
+  }
+  const partial = files.some(file => accepted.get(file.uri.toString()) !== file.proposed);
+  return `Applied to ${files[0].file}.` + (partial ? ' The user accepted only part of it; read the file again before editing it further.' : '');
+}
+
+/**
+ * Panel for a tool-calling agent run. Each model step, tool call and result is shown as
+ * its own turn; follow-ups continue the same conversation with a fresh budget.
+ */
+async function showAgentPanel(context: vscode.ExtensionContext, task: string, token: vscode.CancellationToken): Promise<void> {
+  let apiKey: string;
+  try {
+    apiKey = await ensureApiKey();
+  } catch {
+    return;
+  }
+  const modelName = getConfiguredModel();
+  const tokenBudget = getTokenBudget(modelName);
+  const openai = createGrokClient(apiKey);
+
+  const panel = vscode.window.createWebviewPanel('grokResponse', `Grok Agent: ${task}`, vscode.ViewColumn.Beside, { enableScripts: true, retainContextWhenHidden: true });
+  panel.webview.html = getLoadingHTML();
+
+  let messages: ChatMessage[] = [{ role: 'system', content: AGENT_SYSTEM_PROMPT }];
+  const transcript: string[] = [];
+  let turnCount = 0;
+  let runCts: vscode.CancellationTokenSource | undefined;
+  panel.onDidDispose(() => runCts?.cancel());
+  const host = createAgentToolHost(() => runCts?.token);
+
+  const postTurn = (label: string, markdown: string, partial = true) => {
+    const turnId = `agent-${++turnCount}`;
+    panel.webview.postMessage({ type: 'turnStart', turnId, label });
+    panel.webview.postMessage({ type: 'complete', turnId, html: convertMarkdownToHtml(markdown), partial });
+    transcript.push(`## ${label}\n\n${markdown}`);
+  };
+
+  const run = async (request: string, cancellation: vscode.CancellationToken) => {
+    messages.push({ role: 'user', content: redactSecrets(sanitizeForJson(request)) });
+    const budget = getAgentBudget();
+    try {
+      const result = await runAgent({
+        messages,
+        host,
+        budget,
+        maxResponseTokens: tokenBudget.maxResponseTokens,
+        isCancelled: () => cancellation.isCancellationRequested,
+        countTokens: text => countTokens(text, modelName),
+        complete: async ({ messages: requestMessages, tools, maxTokens }) => {
+          const promptTokens = countChatTokens(requestMessages, modelName);
+          if (promptTokens > tokenBudget.maxPromptTokens) {
+            throw new Error(`the conversation no longer fits the model: ${describeTokenBudget(promptTokens, tokenBudget)}. Start a new agent task.`);
+          }
+          if (!(await checkRateLimit(context))) {
+            throw new Error('rate limit reached');
+          }
+          const abort = new AbortController();
+          const subscription = cancellation.onCancellationRequested(() => abort.abort());
+          try {
+            return await openai.chat.completions.create({ model: modelName, messages: requestMessages, tools, max_tokens: maxTokens, temperature: 0.2 }, { signal: abort.signal });
+          } finally {
+            subscription.dispose();
+          }
+        },
+        onEvent: event => {
+          if (event.type === 'thought') {
+            postTurn(`💭 Step ${event.step}`, event.content);
+          } else if (event.type === 'tool') {
+            // Long results are only previewed; the model gets them in full
+            const preview = event.result.length > 2000 ? `${event.result.slice(0, 2000)}\n…` : event.result;
+            postTurn(`${event.isError ? '⚠️' : '🔧'} ${event.summary}`, '````text\n' + preview + '\n````');
+          } else if (event.type === 'answer') {
+            postTurn(`✅ Done after ${event.step} step(s)`, event.content || '_No answer text._', false);
+          }
+        }
+      });
+      messages = result.messages;
+      if (result.stopReason !== 'answer') {
+        const reason = result.stopReason === 'cancelled'
+          ? 'Cancelled.'
+          : result.stopReason === 'max-steps'
+            ? `Step budget reached (${result.steps} of ${budget.maxSteps} steps, grokIntegration.agentMaxSteps).`
+            : `Token budget reached (${result.tokensUsed.toLocaleString()} of ${budget.maxTokens.toLocaleString()} tokens, grokIntegration.agentMaxTokens).`;
+        postTurn('⏹️ Agent stopped', `${reason} Send a follow-up such as "continue" to resume with a new budget.`, false);
+      }
+    } catch (error) {
+      const cancelled = cancellation.isCancellationRequested;
+      if (!cancelled) {
+        logExtensionError(error, 'showAgentPanel');
+      }
+      // messages still ends with the request: the failed run's tool calls are not kept, so a follow-up can retry
+      postTurn(cancelled ? '⏹️ Agent stopped' : '❌ Agent error', cancelled ? 'Cancelled.' : `${error instanceof Error ? error.message : String(error)}`, false);
+    }
+  };
+
+  panel.webview.postMessage({ type: 'complete', html: convertMarkdownToHtml(`**🤖 Task:** ${task}`), partial: true });
+  transcript.push(`# Grok Agent: ${task}`);
+
+  panel.webview.onDidReceiveMessage(
+    async message => {
+      if (message.command === 'followUp') {
+        const text = typeof message.text === 'string' ? message.text.trim() : '';
+        if (!text) {
+          return;
+        }
+        if (runCts) {
+          // Partial, so follow-ups re-enable when the running request finishes rather than now
+          postTurn(`❓ ${text}`, '_Not sent: the agent is still working on the previous request. Send it again once that finishes._', true);
+          return;
+        }
+        postTurn(`❓ ${text}`, '', true);
+        runCts = new vscode.CancellationTokenSource();
+        try {
+          await run(text, runCts.token);
+        } finally {
+          runCts.dispose();
+          runCts = undefined;
+        }
+      } else if (message.command === 'saveFile') {
+        const uri = await vscode.window.showSaveDialog({
+          defaultUri: vscode.Uri.file('grok-agent-transcript.md'),
+          filters: { 'Markdown Files': ['md'] }
+        });
+        if (uri) {
+          await vscode.workspace.fs.writeFile(uri, Buffer.from(transcript.join('\n\n'), 'utf8'));
+          vscode.window.showInformationMessage(`✅ Transcript saved to ${path.basename(uri.fsPath)}`);
+        }
+      } else if (message.command === 'applyChanges') {
+        vscode.window.showInformationMessage('The agent applies its edits itself, after you approve each one in the diff review.');
+      }
+    },
+    undefined,
+    context.subscriptions
+  );
+
+  // The command's progress notification covers the first run; cancelling it stops the agent, not the panel
+  runCts = new vscode.CancellationTokenSource();
+  const cancelSubscription = token.onCancellationRequested(() => runCts?.cancel());
+  try {
+    await run(task, runCts.token);
+  } finally {
+    cancelSubscription.dispose();
+    runCts.dispose();
+    runCts = undefined;
+  }
+}
+
+let inlineCompletionStatusItem: vscode.StatusBarItem | undefined;
+
+function getInlineCompletionOptions(): InlineCompletionOptions {
+  const config = vscode.workspace.getConfiguration('grokIntegration');
+  const languages = config.get<Record<string, unknown>>('inlineCompletions');
+  const debounceMs = config.get<number>('inlineCompletionDebounceMs') ?? DEFAULT_INLINE_COMPLETION_DEBOUNCE_MS;
+  return {
+    isEnabled: languageId => isLanguageEnabled(languages, languageId),
+    debounceMs: Math.max(50, Math.min(5000, debounceMs)),
+    canShareDocument: isIndexableUri
+  };
+}
+
+// Requested on every pause in typing, so failures are logged rather than shown
+async function requestInlineCompletion(request: InlineCompletionRequest, token: vscode.CancellationToken): Promise<string | undefined> {
+  const apiKey = await getApiKey();
+  if (!apiKey || token.isCancellationRequested) {
+    return undefined;
+  }
+
+  const config = vscode.workspace.getConfiguration('grokIntegration');
+  const modelName = config.get<string>('inlineCompletionModel') || DEFAULT_INLINE_COMPLETION_MODEL;
+  const prompt = redactSecrets(sanitizeForJson(request.prompt));
+  const cacheKey = generateCacheKey(prompt, request.languageId, 'inline completion', {
+    model: modelName,
+    systemPrompt: INLINE_COMPLETION_SYSTEM_PROMPT,
+    temperature: 0,
+    maxTokens: INLINE_COMPLETION_MAX_TOKENS,
+    promptFormat: 'inline-completion'
+  });
+  const cached = isCacheEnabled() ? inlineCompletionCache.get(cacheKey) : undefined;
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const messages: ChatMessage[] = [
+    { role: 'system', content: INLINE_COMPLETION_SYSTEM_PROMPT },
+    { role: 'user', content: prompt }
+  ];
+  // Typing on cancels the token; abort the HTTP request with it so stale completions stop costing tokens
+  const controller = new AbortController();
+  const cancelSubscription = token.onCancellationRequested(() => controller.abort());
+  try {
+    const completion = await createGrokClient(apiKey).chat.completions.create({
+      model: modelName,
+      messages,
+      max_tokens: INLINE_COMPLETION_MAX_TOKENS,
+      temperature: 0
+    }, { signal: controller.signal });
+    const reply = completion.choices[0]?.message?.content || '';
+    if (reply.trim() !== '' && isCacheEnabled()) {
+      inlineCompletionCache.set(cacheKey, reply);
+    }
+    return reply;
+  } catch (error) {
+    if (!token.isCancellationRequested) {
+      logExtensionError(error, 'requestInlineCompletion');
+    }
+    return undefined;
+  } finally {
+    cancelSubscription.dispose();
+  }
+}
+
+function updateInlineCompletionStatus(): void {
+  const item = inlineCompletionStatusItem;
+  const editor = vscode.window.activeTextEditor;
+  if (!item || !editor) {
+    item?.hide();
+    return;
+  }
+  const languageId = editor.document.languageId;
+  const enabled = getInlineCompletionOptions().isEnabled(languageId);
+  item.text = enabled ? '$(sparkle) Grok' : '$(circle-slash) Grok';
+  item.tooltip = `Grok inline completions are ${enabled ? 'on' : 'off'} for ${languageId}. Click to change.`;
+  item.show();
+}
+
+async function toggleInlineCompletionsCommand(): Promise<void> {
+  const config = vscode.workspace.getConfiguration('grokIntegration');
+  const languages = config.get<Record<string, unknown>>('inlineCompletions');
+  const languageId = vscode.window.activeTextEditor?.document.languageId;
+  const defaultEnabled = isLanguageEnabled(languages, '*');
+
+  type ToggleItem = vscode.QuickPickItem & { language?: string; enable?: boolean };
+  const items: ToggleItem[] = [];
+  if (languageId) {
+    const enabled = isLanguageEnabled(languages, languageId);
+    items.push({ label: `${enabled ? '$(circle-slash) Disable' : '$(sparkle) Enable'} for ${languageId}`, language: languageId, enable: !enabled });
+  }
+  items.push(
+    { label: `${defaultEnabled ? '$(circle-slash) Disable' : '$(sparkle) Enable'} by default`, description: 'Languages without their own setting', language: '*', enable: !defaultEnabled },
+    { label: '$(gear) Open Settings' }
+  );
+
+  const choice = await vscode.window.showQuickPick(items, { placeHolder: 'Grok inline completions' });
+  if (!choice) {
+    return;
+  }
+  if (!choice.language) {
+    await vscode.commands.executeCommand('workbench.action.openSettings', 'grokIntegration.inlineCompletion');
+    return;
   }
+  await config.update('inlineCompletions', setLanguageEnabled(languages, choice.language, choice.enable === true), vscode.ConfigurationTarget.Global);
 }
 
 // Command Handlers
@@ -1171,8 +2720,13 @@ async function showTokenCountCommand(token: vscode.CancellationToken) {
     return;
   }
   const code = editor.document.getText(editor.selection) || editor.document.getText();
-  const tokenCount = await estimateTokens(code);
-  vscode.window.showInformationMessage(`Estimated token count: ${tokenCount}`);
+  const model = getConfiguredModel();
+  const tokenCount = await estimateTokens(code, [], model);
+  if (isExactTokenizerAvailable(model)) {
+    vscode.window.showInformationMessage(`Token count for ${model} (${getEncodingForModel(model)}): ${tokenCount}`);
+  } else {
+    vscode.window.showInformationMessage(`Estimated token count (tokenizer unavailable, heuristic): ${tokenCount}`);
+  }
 }
 
 async function securityFixCommand(context: vscode.ExtensionContext, token: vscode.CancellationToken) {
@@ -1203,6 +2757,198 @@ async function fixCodeCommand(context: vscode.ExtensionContext, token: vscode.Ca
   await showGrokPanel(context, 'Grok Code Fix', code, language, 'fix', token);
 }
 
+// Whole lines from startLine to endLine, so the replacement keeps its indentation
+function fullLineRange(document: vscode.TextDocument, startLine: number, endLine: number): vscode.Range {
+  const last = Math.min(endLine, document.lineCount - 1);
+  return new vscode.Range(startLine, 0, last, document.lineAt(last).text.length);
+}
+
+// The function containing the diagnostic, or the lines around it when there is none or it is very long
+async function findQuickFixRegion(document: vscode.TextDocument, diagnostic: vscode.Diagnostic): Promise<{ range: vscode.Range; functionName?: string }> {
+  const symbols = await vscode.commands.executeCommand<(vscode.DocumentSymbol | vscode.SymbolInformation)[] | undefined>('vscode.executeDocumentSymbolProvider', document.uri);
+  const documentSymbols = (symbols || []).filter((symbol): symbol is vscode.DocumentSymbol => 'children' in symbol);
+  const containing = findContainingFunction(documentSymbols, diagnostic.range.start);
+  if (containing && containing.range.contains(diagnostic.range) && containing.range.end.line - containing.range.start.line < MAX_QUICK_FIX_LINES) {
+    return { range: fullLineRange(document, containing.range.start.line, containing.range.end.line), functionName: containing.name };
+  }
+  const startLine = Math.max(0, diagnostic.range.start.line - QUICK_FIX_CONTEXT_LINES);
+  const endLine = Math.min(diagnostic.range.end.line, diagnostic.range.start.line + MAX_QUICK_FIX_LINES) + QUICK_FIX_CONTEXT_LINES;
+  return { range: fullLineRange(document, startLine, endLine) };
+}
+
+/**
+ * "Fix with Grok" from the lightbulb: sends the diagnostic, the code around it and the
+ * problems related to it, then offers the corrected code as a workspace edit that opens
+ * in the refactor preview before it replaces exactly the region that was sent.
+ */
+async function fixDiagnosticCommand(context: vscode.ExtensionContext, token: vscode.CancellationToken, uri?: vscode.Uri, diagnostic?: vscode.Diagnostic): Promise<void> {
+  if (!uri || !diagnostic) {
+    vscode.window.showInformationMessage('Use "Fix with Grok" from the lightbulb on an error or warning.');
+    return;
+  }
+  if (!(await checkRateLimit(context))) {
+    return;
+  }
+  let apiKey: string;
+  try {
+    apiKey = await ensureApiKey();
+  } catch {
+    return;
+  }
+  const document = await vscode.workspace.openTextDocument(uri);
+  const region = await findQuickFixRegion(document, diagnostic);
+  const code = document.getText(region.range);
+  const version = document.version;
+  const filePath = vscode.workspace.asRelativePath(uri);
+
+  const related = vscode.languages.getDiagnostics(uri)
+    .filter(other => other !== diagnostic && other.severity <= vscode.DiagnosticSeverity.Warning && region.range.intersection(other.range) !== undefined)
+    .map(other => toDiagnosticEntry(filePath, other));
+  for (const information of diagnostic.relatedInformation || []) {
+    related.push({ file: vscode.workspace.asRelativePath(information.location.uri), line: information.location.range.start.line + 1, message: information.message });
+  }
+
+  const prompt = buildQuickFixPrompt({
+    filePath,
+    languageId: document.languageId,
+    diagnostic: toDiagnosticEntry(filePath, diagnostic),
+    related,
+    startLine: region.range.start.line + 1,
+    code,
+    functionName: region.functionName
+  });
+  const modelName = getConfiguredModel();
+  const budget = getTokenBudget(modelName);
+  const messages: ChatMessage[] = [
+    { role: 'system', content: QUICK_FIX_SYSTEM_PROMPT },
+    { role: 'user', content: redactSecrets(sanitizeForJson(prompt)) }
+  ];
+  const tokenCount = countChatTokens(messages, modelName);
+  if (tokenCount > budget.maxPromptTokens) {
+    vscode.window.showErrorMessage(`Fix with Grok: request too large (${describeTokenBudget(tokenCount, budget)}).`);
+    return;
+  }
+
+  const controller = new AbortController();
+  const cancelSubscription = token.onCancellationRequested(() => controller.abort());
+  let reply: string;
+  try {
+    const completion = await createGrokClient(apiKey).chat.completions.create({
+      model: modelName,
+      messages,
+      max_tokens: budget.maxResponseTokens,
+      temperature: 0.2
+    }, { signal: controller.signal });
+    reply = completion.choices[0]?.message?.content || '';
+  } catch (error) {
+    if (token.isCancellationRequested) {
+      return;
+    }
+    logExtensionError(error, 'fixDiagnosticCommand');
+    throw error;
+  } finally {
+    cancelSubscription.dispose();
+  }
+  if (token.isCancellationRequested) {
+    return;
+  }
+
+  const replacement = extractReplacement(reply);
+  if (replacement === undefined) {
+    vscode.window.showWarningMessage('Grok did not return the corrected code in a code block. Try "Grok: Propose Code Fix" instead.');
+    return;
+  }
+  if (document.version !== version && document.getText(region.range) !== code) {
+    vscode.window.showWarningMessage(`${filePath} changed while Grok was working on the fix. Run "Fix with Grok" again.`);
+    return;
+  }
+  // Placeholders from redaction must never overwrite the real values
+  if (redactSecrets(code) !== code && /REDACTED/.test(replacement)) {
+    vscode.window.showWarningMessage('The fix touches code with redacted values (keys, URLs or similar), so it was not applied. Try "Grok: Propose Code Fix" instead.');
+    return;
+  }
+  if (replacement === code) {
+    vscode.window.showInformationMessage('Grok returned the code unchanged.');
+    return;
+  }
+
+  const edit = new vscode.WorkspaceEdit();
+  edit.replace(uri, region.range, replacement, { needsConfirmation: true, label: 'Fix with Grok', description: diagnostic.message });
+  await vscode.workspace.applyEdit(edit);
+}
+
+// Run a prompt from the workspace library (.grok/prompts/*.md) against the current editor
+async function runPromptCommand(context: vscode.ExtensionContext, token: vscode.CancellationToken): Promise<void> {
+  // Prompt files come from the repository, so treat them like any other workspace content
+  if (!(await checkWorkspaceTrust())) {
+    return;
+  }
+
+  const prompts = await loadPromptLibrary();
+  if (prompts.length === 0) {
+    vscode.window.showInformationMessage('No prompts found. Add Markdown files to .grok/prompts in your workspace.');
+    return;
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    prompts.map(prompt => ({
+      label: prompt.name,
+      description: `/${prompt.id} · ${prompt.scope}`,
+      detail: prompt.description || prompt.sourcePath,
+      prompt
+    })),
+    { placeHolder: 'Select a prompt to run', title: 'Grok Prompt Library', matchOnDetail: true }
+  );
+  if (!picked) {
+    return;
+  }
+
+  const editor = vscode.window.activeTextEditor;
+  if (picked.prompt.scope !== 'workspace' && !editor) {
+    vscode.window.showErrorMessage('No active editor found.');
+    return;
+  }
+
+  let input = '';
+  if (usesVariable(picked.prompt.template, 'input')) {
+    const answer = await vscode.window.showInputBox({ prompt: picked.prompt.description || picked.prompt.name });
+    if (answer === undefined) {
+      return;
+    }
+    input = answer;
+  }
+
+  const rendered = renderLibraryPrompt(picked.prompt, editor, input);
+  const language = editor?.document.languageId || 'multiple';
+  await showGrokPanel(context, `Grok: ${picked.prompt.name}`, rendered, language, `prompt:${picked.prompt.id}`, token, {
+    verbatimPrompt: true,
+    model: picked.prompt.model,
+    temperature: picked.prompt.temperature
+  });
+}
+
+function renderLibraryPrompt(prompt: PromptDefinition, editor: vscode.TextEditor | undefined, input: string): string {
+  const variables = { ...buildPromptVariables(editor, prompt.scope), input };
+  let rendered = renderPromptTemplate(prompt.template, variables);
+  // Code-scoped prompts that never reference the code still need it to be useful
+  if (prompt.scope !== 'workspace' && variables.selection &&
+    !usesVariable(prompt.template, 'selection') && !usesVariable(prompt.template, 'fileContent')) {
+    rendered += `\n\n\`\`\`${variables.language || ''}\n${variables.selection}\n\`\`\``;
+  }
+  return rendered;
+}
+
+// Resolve "@grok /<prompt-id> extra input" against the workspace prompt library
+async function findLibraryPrompt(chatPrompt: string): Promise<{ prompt: PromptDefinition; input: string } | undefined> {
+  const match = /^\/([a-z0-9-]+)(?:\s+([\s\S]*))?$/i.exec(chatPrompt.trim());
+  if (!match) {
+    return undefined;
+  }
+  const prompts = await loadPromptLibrary();
+  const prompt = prompts.find(candidate => candidate.id === match[1].toLowerCase());
+  return prompt ? { prompt, input: match[2] || '' } : undefined;
+}
+
 async function showErrorLogCommand() {
   const logFile = path.join(os.homedir(), '.vscode-grok-logs', 'error.log');
   if (!fs.existsSync(logFile)) {
@@ -1254,23 +3000,52 @@ function logExtensionError(error: any, context: string = '') {
   }
 }
 
+// Migrate a key found in settings.json into SecretStorage and tell the user
+async function migrateLegacyApiKey(): Promise<void> {
+  try {
+    if (await migrateApiKeyFromSettings()) {
+      vscode.window.showInformationMessage('🔑 Your xAI API key was moved from settings.json to secure storage.');
+    }
+  } catch (error) {
+    logExtensionError(error, 'migrateLegacyApiKey');
+  }
+}
+
+// Chat turns as plain values for buildChatHistoryMessages
+function toChatTurns(history: ReadonlyArray<vscode.ChatRequestTurn | vscode.ChatResponseTurn>): ChatTurn[] {
+  return history.map((turn): ChatTurn => {
+    if (turn instanceof vscode.ChatRequestTurn) {
+      return { kind: 'request', participant: turn.participant, prompt: turn.prompt, command: turn.command };
+    }
+    const text = turn.response
+      .map(part => part instanceof vscode.ChatResponseMarkdownPart ? part.value.value : '')
+      .join('')
+      // Drop the status line this handler writes before every answer
+      .replace(/^🔍 \*\*Processing request\*\*:.*$/m, '');
+    return { kind: 'response', participant: turn.participant, text };
+  });
+}
+
 // Chat Handler
 const chatHandler = {
   async handleRequest(request: vscode.ChatRequest, chatContext: vscode.ChatContext, stream: vscode.ChatResponseStream, token: vscode.CancellationToken): Promise<vscode.ChatResult> {
     const config = vscode.workspace.getConfiguration('grokIntegration');
-    const apiKey = config.get<string>('apiKey');
+    const apiKey = await getApiKey();
     const modelName = config.get<string>('model') || 'grok-3-mini';
 
-    if (!apiKey || typeof apiKey !== 'string' || !apiKey.trim()) {
-      stream.markdown('❌ **API Key Required**: Please set your xAI API key in settings.\n\n[Open Settings](command:workbench.action.openSettings?%5B%22grokIntegration.apiKey%22%5D)');
+    if (!apiKey) {
+      const setKeyMessage = new vscode.MarkdownString('❌ **API Key Required**: Please set your xAI API key.\n\n[Set API Key](command:grok-integration.setApiKey)');
+      setKeyMessage.isTrusted = { enabledCommands: ['grok-integration.setApiKey'] };
+      stream.markdown(setKeyMessage);
       return {};
     }
 
-    const openai = new OpenAI({ apiKey: apiKey.trim(), baseURL: 'https://api.x.ai/v1', timeout: 60000 });
-    let action = 'respond to';
-    if (request.command === 'explain') action = 'explain';
-    else if (request.command === 'review') action = 'review and suggest improvements for';
-    else if (request.command === 'debug') action = 'debug';
+    const openai = createGrokClient(apiKey);
+    // Each slash command has its own action verb and output contract
+    const chatCommand = getChatCommand(request.command);
+    // Prompt library entries act as dynamic slash commands: VS Code only knows the static ones from package.json
+    const libraryPrompt = request.command ? undefined : await findLibraryPrompt(request.prompt);
+    const action = libraryPrompt ? (libraryPrompt.prompt.description || libraryPrompt.prompt.name) : chatCommand.action;
 
     stream.markdown(`🔍 **Processing request**: ${action} the provided context...`);
     let fullContext = '';
@@ -1332,7 +3107,8 @@ const chatHandler = {
     }
 
     const editor = vscode.window.activeTextEditor;
-    if (editor) {
+    // Library prompts embed the selection through their template variables
+    if (editor && !libraryPrompt) {
       const selectionCode = editor.document.getText(editor.selection);
       if (selectionCode) {
         const language = editor.document.languageId;
@@ -1344,34 +3120,53 @@ const chatHandler = {
     const sanitizedContext = sanitizeForJson(fullContext);
     const redactedContext = redactSecrets(sanitizedContext);
     const workspaceInfo = await getWorkspaceContext();
-    const userPrompt = request.prompt || 'Hello';
-
-    const systemMessage = 'You are a direct and professional AI programming assistant. Provide accurate, concise answers with NO witty remarks, jokes, conversational filler, or personality. Be strictly technical and efficient and always focus on security first so that the user always has this as their focus. Give the user the reasons for the change, whether they are suggested as compulsory or as a suggestion (e,g., `--- This is suggested as compulsory to improve the security of your code---` or `--- This is suggested as a suggestion to improve your code---`).  The user has provided context from one or more files. When suggesting changes, clearly state which file each change belongs to using a markdown file block header (e.g., `--- FILE: path/to/file.ts ---`). Provide the line number where a code needs to replace items or be inserted. All code suggestions must be enclosed in a language-specific Markdown code block. Focus only on the technical content requested.';
+    const userPrompt = libraryPrompt
+      ? redactSecrets(sanitizeForJson(renderLibraryPrompt(libraryPrompt.prompt, editor, libraryPrompt.input)))
+      : request.prompt || 'Hello';
+    const requestModel = libraryPrompt?.prompt.model || modelName;
+    const requestTemperature = libraryPrompt?.prompt.temperature ?? 0.2;
+
+    const systemMessage = 'You are a direct and professional AI programming assistant. Provide accurate, concise answers with NO witty remarks, jokes, conversational filler, or personality. Be strictly technical and efficient and always focus on security first so that the user always has this as their focus. Give the user the reasons for the change, whether they are suggested as compulsory or as a suggestion (e,g., `--- This is suggested as compulsory to improve the security of your code---` or `--- This is suggested as a suggestion to improve your code---`).  The user has provided context from one or more files. When suggesting changes, clearly state which file each change belongs to using a markdown file block header (e.g., `--- FILE: path/to/file.ts ---`). Give each edit as a SEARCH/REPLACE block (the exact existing lines under `<<<<<<< SEARCH`, then `=======`, the new lines and `>>>>>>> REPLACE`) or as a unified diff with `--- a/path`, `+++ b/path` and `@@` hunk headers, rather than line numbers. All code suggestions must be enclosed in a language-specific Markdown code block. Focus only on the technical content requested.';
+    let commandInstructions = chatCommand.instructions;
+    if (request.command === 'test') {
+      commandInstructions += ' ' + describeTestFramework(await detectTestFramework());
+    }
+    const systemPrompt = commandInstructions ? `${systemMessage}\n\n${commandInstructions}` : systemMessage;
     const userMessage = `Task: ${action} the following. User prompt: "${userPrompt}"\n\nHere is the full context from the user's workspace:${redactedContext}\n\nWorkspace Info: ${workspaceInfo}`;
 
-    const maxTokens = config.get<number>('maxTokens') || 9000;
-    const tokenCount = await estimateTokens(systemMessage + userMessage);
-    if (tokenCount > maxTokens) {
-      stream.markdown(`❌ Request too large: estimated ${tokenCount} tokens exceeds your configured hard limit of ${maxTokens}. Please reduce your selection or increase the limit in settings.`);
+    const budget = getTokenBudget(requestModel);
+    const tokenCount = countChatTokens([
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: userMessage }
+    ], requestModel);
+    if (tokenCount > budget.maxPromptTokens) {
+      stream.markdown(`❌ Request too large: ${describeTokenBudget(tokenCount, budget)}. Please reduce your selection, or adjust \`grokIntegration.maxPromptTokens\` / \`grokIntegration.maxTokens\` in settings.`);
       return {};
     }
 
+    // Earlier turns fill whatever budget the current request leaves, so follow-ups keep their context
+    const historyMessages = buildChatHistoryMessages(toChatTurns(chatContext.history), {
+      participant: CHAT_PARTICIPANT_ID,
+      tokenBudget: budget.maxPromptTokens - tokenCount,
+      prepareText: text => redactSecrets(sanitizeForJson(text)),
+      countTokens: historyPair => countChatTokens(historyPair, requestModel, false)
+    });
+    const messages: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      ...historyMessages,
+      { role: 'user', content: userMessage }
+    ];
+
     try {
       // Validate JSON before sending
-      JSON.stringify([
-        { role: 'system', content: systemMessage },
-        { role: 'user', content: userMessage }
-      ]);
+      JSON.stringify(messages);
 
       stream.progress('🔍 Connecting to Grok...');
       const response = await openai.chat.completions.create({
-        model: modelName,
-        messages: [
-          { role: 'system', content: systemMessage },
-          { role: 'user', content: userMessage }
-        ],
-        max_tokens: maxTokens,
-        temperature: 0.2,
+        model: requestModel,
+        messages,
+        max_tokens: budget.maxResponseTokens,
+        temperature: requestTemperature,
         stream: true,
       });
       let hasContent = false;
@@ -1407,9 +3202,53 @@ const chatHandler = {
 // Extension Lifecycle
 export async function activate(context: vscode.ExtensionContext) {
   try {
+    // API keys live in SecretStorage; move any key still stored in settings.json
+    initializeSecretStorage(context.secrets);
+    await migrateLegacyApiKey();
+
     // Initialize cache with user settings
+    cacheStats = new CacheStatsTracker(context.workspaceState);
+    cacheStorageDir = context.globalStorageUri.fsPath;
     initializeCache();
 
+    retrievalIndex = new RetrievalIndex(context.storageUri?.fsPath);
+    context.subscriptions.push(createRetrievalIndexWatcher());
+
+    applySnapshots = new ApplySnapshotStore(context.storageUri?.fsPath);
+
+    // Proposed edits are shown in diff editors under their own scheme before anything is written
+    context.subscriptions.push(
+      getProposedContentProvider(),
+      vscode.workspace.registerTextDocumentContentProvider(PROPOSED_CHANGES_SCHEME, getProposedContentProvider())
+    );
+
+    // Ghost-text completions; the status bar item shows and toggles them for the active language
+    inlineCompletionStatusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 101);
+    inlineCompletionStatusItem.command = 'grok-integration.toggleInlineCompletions';
+    context.subscriptions.push(
+      inlineCompletionStatusItem,
+      vscode.languages.registerInlineCompletionItemProvider(
+        [{ scheme: 'file' }, { scheme: 'untitled' }],
+        new GrokInlineCompletionProvider(requestInlineCompletion, getInlineCompletionOptions)
+      ),
+      vscode.window.onDidChangeActiveTextEditor(() => updateInlineCompletionStatus()),
+      vscode.workspace.onDidChangeConfiguration(event => {
+        if (event.affectsConfiguration('grokIntegration.inlineCompletions')) {
+          updateInlineCompletionStatus();
+        }
+      })
+    );
+    updateInlineCompletionStatus();
+
+    // "Fix with Grok" lightbulb on errors and warnings
+    context.subscriptions.push(
+      vscode.languages.registerCodeActionsProvider(
+        [{ scheme: 'file' }, { scheme: 'untitled' }],
+        new GrokQuickFixProvider(),
+        { providedCodeActionKinds: GrokQuickFixProvider.providedCodeActionKinds }
+      )
+    );
+
     // Set up periodic cache cleanup for better efficiency (every 30 minutes)
     const cacheCleanupInterval = setInterval(() => {
       cleanupExpiredCacheEntries();
@@ -1426,10 +3265,15 @@ export async function activate(context: vscode.ExtensionContext) {
       vscode.workspace.onDidChangeConfiguration((event) => {
         if (event.affectsConfiguration('grokIntegration.cacheMaxItems') ||
           event.affectsConfiguration('grokIntegration.cacheTtlMinutes') ||
-          event.affectsConfiguration('grokIntegration.enableCache')) {
+          event.affectsConfiguration('grokIntegration.enableCache') ||
+          event.affectsConfiguration('grokIntegration.persistentCache') ||
+          event.affectsConfiguration('grokIntegration.persistentCacheMaxMB')) {
           initializeCache(); // Reinitialize cache with new settings
           vscode.window.showInformationMessage('🔄 Grok cache settings updated.');
         }
+        if (event.affectsConfiguration('grokIntegration.apiKey')) {
+          void migrateLegacyApiKey();
+        }
       })
     );
 
@@ -1445,7 +3289,7 @@ export async function activate(context: vscode.ExtensionContext) {
       }
     });
 
-    const participant = vscode.chat.createChatParticipant('grok-integration.grok', chatHandler.handleRequest.bind(chatHandler));
+    const participant = vscode.chat.createChatParticipant(CHAT_PARTICIPANT_ID, chatHandler.handleRequest.bind(chatHandler));
     participant.iconPath = new vscode.ThemeIcon('hubot');
     participant.followupProvider = {
       provideFollowups(result: vscode.ChatResult, chatContext: vscode.ChatContext, token: vscode.CancellationToken) {
@@ -1458,15 +3302,16 @@ export async function activate(context: vscode.ExtensionContext) {
     };
     context.subscriptions.push(participant);
 
-    const registerCancellableCommand = (commandId: string, task: (token: vscode.CancellationToken) => Promise<void>) => {
-      return vscode.commands.registerCommand(commandId, () => {
+    // Arguments are whatever the caller (a tree item, a code action) passes; each task declares its own
+    const registerCancellableCommand = <Args extends unknown[]>(commandId: string, task: (token: vscode.CancellationToken, ...args: Args) => Promise<void>) => {
+      return vscode.commands.registerCommand(commandId, (...args: Args) => {
         return vscode.window.withProgress({
           location: vscode.ProgressLocation.Notification,
           title: `Grok: ${commandId.split('.').pop()}`,
           cancellable: true
         }, async (progress, token) => {
           try {
-            await task(token);
+            await task(token, ...args);
           } catch (err) {
             vscode.window.showErrorMessage(`Error in ${commandId}: ${err instanceof Error ? err.message : String(err)}`);
           }
@@ -1483,11 +3328,12 @@ export async function activate(context: vscode.ExtensionContext) {
       registerCancellableCommand('grok-integration.editWithGrok', async (token) => await editWithGrokCommand(context, token)),
       registerCancellableCommand('grok-integration.showTokenCount', async (token) => await showTokenCountCommand(token)),
       registerCancellableCommand('grok-integration.fixCode', async (token) => await fixCodeCommand(context, token)),
+      registerCancellableCommand('grok-integration.runPrompt', async (token) => await runPromptCommand(context, token)),
+      registerCancellableCommand(FIX_DIAGNOSTIC_COMMAND, async (token, uri?: vscode.Uri, diagnostic?: vscode.Diagnostic) => await fixDiagnosticCommand(context, token, uri, diagnostic)),
       vscode.commands.registerCommand('grok-integration.testConnection', async () => {
-        const config = vscode.workspace.getConfiguration('grokIntegration');
-        const apiKey = config.get<string>('apiKey');
-        if (!apiKey || typeof apiKey !== 'string' || !apiKey.trim()) {
-          vscode.window.showErrorMessage('API key is required to test connection.');
+        const apiKey = await getApiKey();
+        if (!apiKey) {
+          vscode.window.showErrorMessage('API key is required to test connection. Run "Grok: Set API Key" first.');
           return;
         }
         vscode.window.showInformationMessage('Testing connection to Grok...');
@@ -1498,6 +3344,25 @@ export async function activate(context: vscode.ExtensionContext) {
           vscode.window.showErrorMessage('❌ Failed to connect to Grok API. Please check your API key and network.');
         }
       }),
+      vscode.commands.registerCommand('grok-integration.setApiKey', async () => {
+        const apiKey = await promptForApiKey();
+        if (!apiKey) {
+          return;
+        }
+        await setApiKey(apiKey);
+        vscode.window.showInformationMessage('🔑 xAI API key stored securely.');
+      }),
+      vscode.commands.registerCommand('grok-integration.removeApiKey', async () => {
+        const proceed = await vscode.window.showWarningMessage(
+          'Remove the stored xAI API key? Grok requests will prompt for a new key.',
+          { modal: true },
+          'Remove'
+        );
+        if (proceed === 'Remove') {
+          await deleteApiKey();
+          vscode.window.showInformationMessage('🗑️ xAI API key removed.');
+        }
+      }),
       registerCancellableCommand('grok-integration.securityFix', async (token) => await securityFixCommand(context, token)),
       registerCancellableCommand('grok-integration.explainCodeContext', async (token) => await explainCodeCommand(context, token)),
       registerCancellableCommand('grok-integration.reviewCodeContext', async (token) => await reviewCodeCommand(context, token)),
@@ -1505,7 +3370,7 @@ export async function activate(context: vscode.ExtensionContext) {
       registerCancellableCommand('grok-integration.clearErrorLog', async () => await clearErrorLogCommand()),
       vscode.commands.registerCommand('grok-integration.clearCache', async () => {
         if (cache) {
-          cache.clear();
+          clearAllCaches();
           vscode.window.showInformationMessage('🗑️ Grok response cache cleared.');
         } else {
           vscode.window.showWarningMessage('Cache not initialized.');
@@ -1518,11 +3383,37 @@ export async function activate(context: vscode.ExtensionContext) {
           const cacheEnabled = isCacheEnabled();
           const config = vscode.workspace.getConfiguration('grokIntegration');
           const ttlMinutes = config.get<number>('cacheTtlMinutes') || 30;
-          vscode.window.showInformationMessage(`📊 Cache: ${size}/${maxSize} entries, TTL: ${ttlMinutes}min, Enabled: ${cacheEnabled}`);
+          // Report which model produced the cached answers
+          const modelCounts = new Map<string, number>();
+          for (const entry of cache.values()) {
+            const model = entry.model || 'unknown';
+            modelCounts.set(model, (modelCounts.get(model) || 0) + 1);
+          }
+          const stats = cacheStats?.snapshot;
+          if (!stats) {
+            vscode.window.showInformationMessage(`📊 Cache: ${size}/${maxSize} entries, TTL: ${ttlMinutes}min, Enabled: ${cacheEnabled}`);
+            return;
+          }
+          const report = formatCacheStatsReport(stats, {
+            enabled: cacheEnabled,
+            entries: size,
+            maxEntries: maxSize,
+            ttlMinutes,
+            diskEntries: persistentCache?.size,
+            entriesPerModel: modelCounts
+          });
+          const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: report });
+          await vscode.window.showTextDocument(document, { preview: true });
         } else {
           vscode.window.showWarningMessage('Cache not initialized.');
         }
       }),
+      vscode.commands.registerCommand('grok-integration.revertLastApply', async () => await revertLastApplyCommand()),
+      vscode.commands.registerCommand('grok-integration.toggleInlineCompletions', async () => await toggleInlineCompletionsCommand()),
+      vscode.commands.registerCommand('grok-integration.resetCacheStats', async () => {
+        await cacheStats?.reset();
+        vscode.window.showInformationMessage('🔄 Grok cache statistics reset.');
+      }),
       vscode.commands.registerCommand('grok-integration.resetCacheSettings', async () => {
         const proceed = await vscode.window.showWarningMessage(
           'This will reset cache settings to defaults and clear current cache. Continue?',
@@ -1537,12 +3428,56 @@ export async function activate(context: vscode.ExtensionContext) {
           vscode.window.showInformationMessage('🔄 Cache settings reset to defaults.');
         }
       }),
+      vscode.commands.registerCommand('grok-integration.refreshCacheView', () => cacheTreeProvider?.refresh()),
+      vscode.commands.registerCommand('grok-integration.openCacheEntry', async (item?: CacheTreeItem) => {
+        if (item) {
+          const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: cacheEntryToMarkdown(item.entry) });
+          await vscode.window.showTextDocument(document, { preview: true });
+        }
+      }),
+      vscode.commands.registerCommand('grok-integration.deleteCacheEntry', (item?: CacheTreeItem) => {
+        if (item) {
+          deleteFromCache(item.entry.key);
+        }
+      }),
+      vscode.commands.registerCommand('grok-integration.exportCacheEntry', async (item?: CacheTreeItem) => {
+        const entries = item ? [item.entry] : listCacheEntries().sort((a, b) => b.timestamp - a.timestamp);
+        if (entries.length === 0) {
+          vscode.window.showInformationMessage('The Grok cache is empty.');
+          return;
+        }
+        const uri = await vscode.window.showSaveDialog({
+          defaultUri: vscode.Uri.file(item ? `grok-cache-${item.entry.key}.md` : 'grok-cache.md'),
+          filters: { 'Markdown Files': ['md'] }
+        });
+        if (uri) {
+          const markdown = entries.map(entry => cacheEntryToMarkdown(entry)).join('\n\n---\n\n');
+          await vscode.workspace.fs.writeFile(uri, Buffer.from(markdown, 'utf8'));
+          vscode.window.showInformationMessage(`✅ Exported ${entries.length} cached response(s) to ${path.basename(uri.fsPath)}`);
+        }
+      }),
+      registerCancellableCommand('grok-integration.rerunCacheEntry', async (token, item?: CacheTreeItem) => {
+        const source = item && cacheRequestSources.get(item.entry.key);
+        if (!source) {
+          vscode.window.showWarningMessage('The original request is only kept for this session; run it again from the editor.');
+          return;
+        }
+        await showGrokPanel(context, source.title, source.code, source.language, source.action, token, { ...source.options, bypassCache: true });
+      }),
       registerCancellableCommand('grok-integration.selectWorkspaceFiles', async (token) => await selectWorkspaceFilesCommand(context, token)),
       registerCancellableCommand('grok-integration.exportAllWorkspaceFiles', async (token) => await exportAllWorkspaceFilesCommand(context, token)),
       registerCancellableCommand('grok-integration.askGrokWorkspace', async (token) => await askGrokWorkspaceCommand(context, token)),
+      registerCancellableCommand('grok-integration.rebuildRetrievalIndex', async (token) => await rebuildRetrievalIndexCommand(token)),
+      registerCancellableCommand('grok-integration.runAgentTask', async (token) => await runAgentTaskCommand(context, token)),
     ];
     context.subscriptions.push(...commands);
 
+    cacheTreeProvider = new CacheTreeProvider(listCacheEntries);
+    context.subscriptions.push(
+      cacheTreeProvider,
+      vscode.window.registerTreeDataProvider(CACHE_VIEW_ID, cacheTreeProvider)
+    );
+
     vscode.window.showInformationMessage('🤖 Grok Integration activated! Try @grok in chat or right-click selected code.');
 
     // Example: Add a new command for AI query integration
@@ -1688,6 +3623,25 @@ export async function getFilesList(): Promise<vscode.Uri[]> {
   return gitFiles.filter(isValidExtension).filter(notOnExcludeList);
 }
 
+// Reused for a moment, so a burst of file events or agent reads runs git once
+const TRACKED_FILES_TTL_MS = 2000;
+let trackedFiles: { paths: Promise<Set<string>>; expires: number } | undefined;
+
+// Workspace-relative paths of getFilesList(), the files workspace requests may send
+function getTrackedFilePaths(): Promise<Set<string>> {
+  if (!trackedFiles || trackedFiles.expires < Date.now()) {
+    const paths = getFilesList().then(files => new Set(files.map(uri => vscode.workspace.asRelativePath(uri))));
+    trackedFiles = { paths, expires: Date.now() + TRACKED_FILES_TTL_MS };
+    // A failed listing is not reused
+    paths.catch(() => {
+      if (trackedFiles?.paths === paths) {
+        trackedFiles = undefined;
+      }
+    });
+  }
+  return trackedFiles.paths;
+}
+
 export async function getWorkspaceFilesContents(): Promise<{ path: string; content: string }[]> {
   const workspaceFolders = vscode.workspace.workspaceFolders;
   if (!workspaceFolders || workspaceFolders.length === 0) {
@@ -1711,6 +3665,216 @@ export async function getWorkspaceFilesContents(): Promise<{ path: string; conte
   return results;
 }
 
+// Inverse of asRelativePath: multi-root workspaces prefix relative paths with the folder name
+function resolveWorkspacePath(relativePath: string): vscode.Uri {
+  const workspaceFolders = vscode.workspace.workspaceFolders;
+  if (!workspaceFolders || workspaceFolders.length === 0) {
+    throw new Error("No workspace folder open");
+  }
+  if (workspaceFolders.length > 1) {
+    const [folderName, ...rest] = relativePath.split('/');
+    const folder = workspaceFolders.find(candidate => candidate.name === folderName);
+    if (folder) {
+      return vscode.Uri.joinPath(folder.uri, ...rest);
+    }
+  }
+  return vscode.Uri.joinPath(workspaceFolders[0].uri, relativePath);
+}
+
+function isIndexableUri(uri: vscode.Uri): boolean {
+  const relativePath = vscode.workspace.asRelativePath(uri);
+  // asRelativePath returns the input unchanged for files outside the workspace
+  return relativePath !== uri.fsPath && !/(^|\/)(node_modules|\.git|dist|out)\//.test(relativePath) &&
+    isValidExtension(uri) && notOnExcludeList(uri);
+}
+
+async function indexWorkspaceFile(index: RetrievalIndex, uri: vscode.Uri): Promise<void> {
+  const relativePath = vscode.workspace.asRelativePath(uri);
+  try {
+    const stat = await vscode.workspace.fs.stat(uri);
+    if (stat.type & vscode.FileType.File) {
+      if (!index.isCurrent(relativePath, stat.mtime, stat.size)) {
+        index.updateFile(relativePath, await readFileAsUtf8(uri), stat.mtime, stat.size);
+      }
+    }
+  } catch {
+    index.removeFile(relativePath);
+  }
+}
+
+// Keep the index current as files change; events before the first sync are picked up by that sync
+function createRetrievalIndexWatcher(): vscode.Disposable {
+  const watcher = vscode.workspace.createFileSystemWatcher('**/*');
+  const onChanged = async (uri: vscode.Uri) => {
+    const index = retrievalIndex;
+    if (!index || !retrievalIndexSynced || !isIndexableUri(uri)) {
+      return;
+    }
+    // Gitignored files stay out, as they do in a full sync
+    const relativePath = vscode.workspace.asRelativePath(uri);
+    if ((await getTrackedFilePaths()).has(relativePath)) {
+      await indexWorkspaceFile(index, uri);
+    } else {
+      index.removeFile(relativePath);
+    }
+  };
+  const onDeleted = (uri: vscode.Uri) => {
+    if (!retrievalIndex || !retrievalIndexSynced) {
+      return;
+    }
+    // A deleted folder only reports itself, so drop everything beneath it too
+    const relativePath = vscode.workspace.asRelativePath(uri);
+    for (const indexedPath of retrievalIndex.paths()) {
+      if (indexedPath === relativePath || indexedPath.startsWith(`${relativePath}/`)) {
+        retrievalIndex.removeFile(indexedPath);
+      }
+    }
+  };
+  return vscode.Disposable.from(watcher, watcher.onDidCreate(onChanged), watcher.onDidChange(onChanged), watcher.onDidDelete(onDeleted));
+}
+
+// Bring the index in line with the workspace once per session; only files whose mtime changed are re-read
+async function syncRetrievalIndex(token: vscode.CancellationToken): Promise<RetrievalIndex | undefined> {
+  const index = retrievalIndex;
+  if (!index) {
+    return undefined;
+  }
+  if (!index.isLoaded) {
+    await index.load();
+  }
+  if (retrievalIndexSynced) {
+    return index;
+  }
+
+  const seen = new Set<string>();
+  for (const uri of await getFilesList()) {
+    if (token.isCancellationRequested) {
+      return undefined;
+    }
+    seen.add(vscode.workspace.asRelativePath(uri));
+    await indexWorkspaceFile(index, uri);
+  }
+  for (const indexedPath of index.paths()) {
+    if (!seen.has(indexedPath)) {
+      index.removeFile(indexedPath);
+    }
+  }
+  retrievalIndexSynced = true;
+  return index;
+}
+
+async function runAgentTaskCommand(context: vscode.ExtensionContext, token: vscode.CancellationToken) {
+  if (!vscode.workspace.workspaceFolders?.length) {
+    vscode.window.showErrorMessage('Open a workspace folder to run the Grok agent.');
+    return;
+  }
+  const task = await vscode.window.showInputBox({
+    prompt: 'What should the Grok agent do in this workspace?',
+    placeHolder: 'e.g., "Find where sessions are validated and add an expiry check"',
+    ignoreFocusOut: true
+  });
+  if (!task?.trim()) {
+    return;
+  }
+  await showAgentPanel(context, task.trim(), token);
+}
+
+async function rebuildRetrievalIndexCommand(token: vscode.CancellationToken) {
+  if (!retrievalIndex) {
+    vscode.window.showWarningMessage('Retrieval index not initialized.');
+    return;
+  }
+  if (!retrievalIndex.isLoaded) {
+    await retrievalIndex.load();
+  }
+  retrievalIndex.clear();
+  retrievalIndexSynced = false;
+  const index = await syncRetrievalIndex(token);
+  if (index) {
+    vscode.window.showInformationMessage(`🔎 Grok retrieval index rebuilt: ${index.fileCount} files indexed.`);
+  }
+}
+
+/**
+ * Pick the files most relevant to a question from the local index and let the user
+ * review them, with the score, matched terms and best matching lines of each.
+ * Resolves with the chosen files' contents, or undefined if the user cancelled.
+ */
+async function selectRelevantWorkspaceFiles(question: string, topN: number, token: vscode.CancellationToken): Promise<{ path: string; content: string }[] | undefined> {
+  const index = await syncRetrievalIndex(token);
+  if (!index) {
+    return undefined;
+  }
+
+  const results = index.search(question, topN);
+  if (results.length === 0) {
+    vscode.window.showInformationMessage('No indexed files match the question; sending the whole workspace.');
+    return getWorkspaceFilesContents();
+  }
+
+  const picked = await vscode.window.showQuickPick(
+    results.map(result => ({
+      label: result.path,
+      description: `score ${result.score.toFixed(2)}`,
+      detail: `Matched: ${result.matchedTerms.slice(0, 6).join(', ')} · lines ${result.chunks.map(chunk => `${chunk.startLine}-${chunk.endLine}`).join(', ')}`,
+      picked: true
+    })),
+    {
+      canPickMany: true,
+      ignoreFocusOut: true,
+      title: `Most relevant ${results.length} of ${index.fileCount} indexed files`,
+      placeHolder: 'Uncheck files that should not be sent to Grok'
+    },
+    token
+  );
+  if (!picked || picked.length === 0) {
+    return undefined;
+  }
+
+  const files: { path: string; content: string }[] = [];
+  for (const item of picked) {
+    try {
+      files.push({ path: item.label, content: await readFileAsUtf8(resolveWorkspacePath(item.label)) });
+    } catch (error) {
+      console.error(`Failed to read file ${item.label}: ${error}`);
+    }
+  }
+  return files;
+}
+
+// Block format used when several files are sent in one request
+function formatFileBlock(filePath: string, content: string): string {
+  return `\n\n--- FILE: ${filePath} ---\n${content}\n--- END FILE ---`;
+}
+
+function getWorkspaceChunkingMode(): WorkspaceChunkingMode {
+  return vscode.workspace.getConfiguration('grokIntegration').get<WorkspaceChunkingMode>('workspaceChunking') || 'auto';
+}
+
+// Show per-file tokens and cost before a multi-file request; resolves with the files the user kept
+async function confirmWorkspaceFiles(title: string, files: { path: string; content: string }[], instruction: string, token: vscode.CancellationToken): Promise<{ path: string; content: string }[] | undefined> {
+  const model = getConfiguredModel();
+  const multiplier = getTokenMultiplier();
+  const overheadTokens = countChatTokens([
+    { role: 'system', content: PANEL_SYSTEM_PROMPT },
+    { role: 'user', content: `${instruction} this multiple code:\n\n` }
+  ], model);
+
+  const kept = await showPreflightDialog({
+    title,
+    files: files.map(file => ({ path: file.path, tokens: countTokens(formatFileBlock(file.path, file.content), model, multiplier) })),
+    overheadTokens,
+    budget: getTokenBudget(model),
+    price: findModelPrice(model, getModelPricing()),
+    chunked: getWorkspaceChunkingMode() !== 'off'
+  }, token);
+  if (!kept) {
+    return undefined;
+  }
+  const keptPaths = new Set(kept);
+  return files.filter(file => keptPaths.has(file.path));
+}
+
 // Add new command handlers
 async function selectWorkspaceFilesCommand(context: vscode.ExtensionContext, token: vscode.CancellationToken) {
   try {
@@ -1756,26 +3920,35 @@ async function selectWorkspaceFilesCommand(context: vscode.ExtensionContext, tok
       return;
     }
 
-    // Prepare context with selected files
-    let combinedContent = '';
-
+    // Read the selected files, then let the user review their token cost
+    const filesWithContent: { path: string; content: string }[] = [];
     for (const file of selectedFiles) {
       try {
-        const content = await readFileAsUtf8(file.uri);
-        combinedContent += `\n\n--- FILE: ${file.label} ---\n${content}\n--- END FILE ---`;
+        filesWithContent.push({ path: file.label, content: await readFileAsUtf8(file.uri) });
       } catch (error) {
         vscode.window.showErrorMessage(`Failed to read ${file.label}: ${error}`);
       }
     }
+    if (filesWithContent.length === 0) {
+      return;
+    }
+
+    const confirmedFiles = await confirmWorkspaceFiles('Workspace Export', filesWithContent, userInstruction, token);
+    if (!confirmedFiles) {
+      vscode.window.showInformationMessage('Workspace export cancelled.');
+      return;
+    }
 
+    const combinedContent = confirmedFiles.map(file => formatFileBlock(file.path, file.content)).join('');
     if (combinedContent) {
       await showGrokPanel(
         context,
-        `Workspace Export: ${userInstruction} (${selectedFiles.length} files)`,
+        `Workspace Export: ${userInstruction} (${confirmedFiles.length} files)`,
         combinedContent,
         'multiple',
         userInstruction,
-        token
+        token,
+        { workspaceFiles: confirmedFiles }
       );
     }
 
@@ -1794,17 +3967,6 @@ async function exportAllWorkspaceFilesCommand(context: vscode.ExtensionContext,
       return;
     }
 
-    // Check if too many files
-    if (filesWithContent.length > 50) {
-      const proceed = await vscode.window.showWarningMessage(
-        `Found ${filesWithContent.length} files. This might be too large for Grok. Continue?`,
-        'Yes', 'No'
-      );
-      if (proceed !== 'Yes') {
-        return;
-      }
-    }
-
     // Get user's instruction for what to do with all workspace files
     const userInstruction = await vscode.window.showInputBox({
       prompt: `What would you like Grok to do with all ${filesWithContent.length} workspace files?`,
@@ -1818,19 +3980,23 @@ async function exportAllWorkspaceFilesCommand(context: vscode.ExtensionContext,
       return;
     }
 
-    // Combine all file contents
-    let combinedContent = '';
-    for (const file of filesWithContent) {
-      combinedContent += `\n\n--- FILE: ${file.path} ---\n${file.content}\n--- END FILE ---`;
+    // Replaces the old "more than 50 files" warning: the user sees the real token cost and can drop files
+    const confirmedFiles = await confirmWorkspaceFiles('Full Workspace Export', filesWithContent, userInstruction, token);
+    if (!confirmedFiles) {
+      vscode.window.showInformationMessage('Workspace export cancelled.');
+      return;
     }
 
+    const combinedContent = confirmedFiles.map(file => formatFileBlock(file.path, file.content)).join('');
+
     await showGrokPanel(
       context,
-      `Full Workspace Export: ${userInstruction} (${filesWithContent.length} files)`,
+      `Full Workspace Export: ${userInstruction} (${confirmedFiles.length} files)`,
       combinedContent,
       'multiple',
       userInstruction,
-      token
+      token,
+      { workspaceFiles: confirmedFiles }
     );
 
   } catch (error) {
@@ -1851,7 +4017,15 @@ async function askGrokWorkspaceCommand(context: vscode.ExtensionContext, token:
       return;
     }
 
-    const filesWithContent = await getWorkspaceFilesContents();
+    // Send only the files the local index ranks as relevant, unless retrieval is turned off
+    const topN = vscode.workspace.getConfiguration('grokIntegration').get<number>('workspaceRetrievalTopN') ?? 8;
+    const filesWithContent = topN > 0
+      ? await selectRelevantWorkspaceFiles(userPrompt, topN, token)
+      : await getWorkspaceFilesContents();
+    if (!filesWithContent) {
+      vscode.window.showInformationMessage('Workspace query cancelled.');
+      return;
+    }
 
     if (filesWithContent.length === 0) {
       vscode.window.showInformationMessage('No valid files found in workspace.');
@@ -1861,7 +4035,7 @@ async function askGrokWorkspaceCommand(context: vscode.ExtensionContext, token:
     // Combine all file contents
     let combinedContent = `User Question: ${userPrompt}\n\nWorkspace Files:`;
     for (const file of filesWithContent) {
-      combinedContent += `\n\n--- FILE: ${file.path} ---\n${file.content}\n--- END FILE ---`;
+      combinedContent += formatFileBlock(file.path, file.content);
     }
 
     await showGrokPanel(
@@ -1870,7 +4044,8 @@ async function askGrokWorkspaceCommand(context: vscode.ExtensionContext, token:
       combinedContent,
       'multiple',
       `answer the user's question: "${userPrompt}" based on`,
-      token
+      token,
+      { workspaceFiles: filesWithContent }
     );
 
   } catch (error) {
@@ -1879,8 +4054,11 @@ async function askGrokWorkspaceCommand(context: vscode.ExtensionContext, token:
   }
 }
 
-export function deactivate() {
-  // No explicit cleanup required; VSCode disposes subscriptions automatically.
+export async function deactivate(): Promise<void> {
+  // Subscriptions are disposed by VS Code; flush pending cache, statistics and index writes and free tokenizer memory
+  await Promise.all([persistentCache?.flush(), cacheStats?.flush(), retrievalIndex?.flush()]);
+  disposeTokenizers();
+  agentTerminal?.dispose();
 }
 
 // Export functions for testing
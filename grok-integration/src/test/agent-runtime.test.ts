@@ -0,0 +1,151 @@
+import * as assert from 'assert';
+import OpenAI from 'openai';
+
+import { AgentEvent, AgentToolHost, matchesPathPattern, numberLines, parseToolCall, runAgent, truncateToolResult } from '../utils/agentRuntime';
+
+type Completion = OpenAI.Chat.Completions.ChatCompletion;
+
+// A completion that calls one tool, or answers when no tool is given
+function reply(tool?: { name: string; args: string }, content: string | null = null, totalTokens = 100): Completion {
+    return {
+        id: 'test',
+        object: 'chat.completion',
+        created: 0,
+        model: 'test',
+        usage: { prompt_tokens: totalTokens - 10, completion_tokens: 10, total_tokens: totalTokens },
+        choices: [{
+            index: 0,
+            finish_reason: tool ? 'tool_calls' : 'stop',
+            logprobs: null,
+            message: {
+                role: 'assistant',
+                content,
+                refusal: null,
+                tool_calls: tool ? [{ id: `call-${tool.name}`, type: 'function', function: { name: tool.name, arguments: tool.args } }] : undefined
+            }
+        }]
+    };
+}
+
+const host: AgentToolHost = {
+    readFile: async args => `contents of ${args.path}`,
+    listFiles: async () => 'src/a.ts\nsrc/b.ts',
+    searchText: async () => 'src/a.ts:1: match',
+    proposeEdit: async () => 'Applied to src/a.ts.',
+    runCommand: async args => `$ ${args.command}\nExit code: 0`
+};
+
+describe('Agent Runtime Tests', () => {
+
+    describe('parseToolCall', () => {
+        it('should read snake_case arguments into a typed call', () => {
+            assert.deepStrictEqual(parseToolCall('read_file', '{"path":"src/a.ts","start_line":3,"end_line":9}'), {
+                name: 'read_file',
+                args: { path: 'src/a.ts', startLine: 3, endLine: 9 }
+            });
+            assert.deepStrictEqual(parseToolCall('search_text', '{"query":"todo","max_results":500}').args, { query: 'todo', isRegex: false, maxResults: 100 });
+            assert.deepStrictEqual(parseToolCall('run_command', '{"command":"npm test","explanation":"check the fix"}').args, { command: 'npm test', explanation: 'check the fix' });
+        });
+
+        it('should reject invalid arguments with a message for the model', () => {
+            assert.throws(() => parseToolCall('read_file', '{path:'), /not valid JSON/);
+            assert.throws(() => parseToolCall('read_file', '{}'), /path is required/);
+            assert.throws(() => parseToolCall('read_file', '{"path":"a","start_line":0}'), /positive integer/);
+            assert.throws(() => parseToolCall('propose_edit', '{"path":"a","search":"x"}'), /replace is required/);
+            assert.throws(() => parseToolCall('propose_edit', '{"path":"a","search":"x","replace":"y","content":"z"}'), /either/);
+            assert.throws(() => parseToolCall('run_command', '{"command":"  "}'), /command is required/);
+            assert.throws(() => parseToolCall('run_shell', '{}'), /unknown tool/);
+        });
+    });
+
+    describe('helpers', () => {
+        it('should match globs and substrings against paths', () => {
+            assert.ok(matchesPathPattern('src/utils/a.ts', 'src/**/*.ts'));
+            assert.ok(matchesPathPattern('src/a.ts', 'src/**/*.ts'));
+            assert.ok(!matchesPathPattern('src/utils/a.ts', 'src/*.ts'));
+            assert.ok(matchesPathPattern('src/Utils/a.ts', 'utils'));
+            assert.ok(!matchesPathPattern('src/a.tsx', '*.ts'));
+        });
+
+        it('should number the requested lines', () => {
+            assert.strictEqual(numberLines('a\nb\nc', 2, 3), '2| b\n3| c');
+            assert.strictEqual(numberLines('a\r\nb', 1, 50), '1| a\n2| b');
+        });
+
+        it('should truncate long tool results', () => {
+            assert.strictEqual(truncateToolResult('short', 10), 'short');
+            assert.match(truncateToolResult('x'.repeat(20), 10), /^x{10}\n… \[truncated 10 characters/);
+        });
+    });
+
+    describe('runAgent', () => {
+        it('should run tools until the model answers', async () => {
+            const replies = [reply({ name: 'read_file', args: '{"path":"src/a.ts"}' }, 'Reading first'), reply(undefined, 'All done')];
+            const requests: number[] = [];
+            const events: AgentEvent[] = [];
+            const result = await runAgent({
+                complete: async request => {
+                    requests.push(request.messages.length);
+                    return replies.shift()!;
+                },
+                host,
+                messages: [{ role: 'user', content: 'task' }],
+                budget: { maxSteps: 5, maxTokens: 10000 },
+                maxResponseTokens: 1000,
+                onEvent: event => events.push(event)
+            });
+
+            assert.strictEqual(result.stopReason, 'answer');
+            assert.strictEqual(result.answer, 'All done');
+            assert.strictEqual(result.steps, 2);
+            assert.strictEqual(result.tokensUsed, 200);
+            // The second request carries the tool call and its result
+            assert.deepStrictEqual(requests, [1, 3]);
+            assert.deepStrictEqual(result.messages[2], { role: 'tool', tool_call_id: 'call-read_file', content: 'contents of src/a.ts' });
+            assert.deepStrictEqual(events.map(event => event.type), ['step', 'thought', 'tool', 'step', 'answer']);
+        });
+
+        it('should send tool errors back to the model instead of stopping', async () => {
+            const replies = [reply({ name: 'read_file', args: '{}' }), reply(undefined, 'Sorry')];
+            const result = await runAgent({
+                complete: async () => replies.shift()!,
+                host,
+                messages: [{ role: 'user', content: 'task' }],
+                budget: { maxSteps: 5, maxTokens: 10000 },
+                maxResponseTokens: 1000
+            });
+            assert.strictEqual(result.messages[2].content, 'Error: path is required');
+            assert.strictEqual(result.answer, 'Sorry');
+        });
+
+        it('should stop at the step and token budgets', async () => {
+            const looping = async () => reply({ name: 'list_files', args: '{}' }, null, 400);
+            const base = { host, messages: [{ role: 'user' as const, content: 'task' }], maxResponseTokens: 1000, complete: looping };
+
+            const bySteps = await runAgent({ ...base, budget: { maxSteps: 3, maxTokens: 100000 } });
+            assert.strictEqual(bySteps.stopReason, 'max-steps');
+            assert.strictEqual(bySteps.steps, 3);
+
+            const byTokens = await runAgent({ ...base, budget: { maxSteps: 50, maxTokens: 1000 } });
+            assert.strictEqual(byTokens.stopReason, 'max-tokens');
+            assert.strictEqual(byTokens.tokensUsed, 1200);
+        });
+
+        it('should stop when cancelled', async () => {
+            let cancelled = false;
+            const result = await runAgent({
+                complete: async () => {
+                    cancelled = true;
+                    return reply({ name: 'list_files', args: '{}' });
+                },
+                host,
+                messages: [{ role: 'user', content: 'task' }],
+                budget: { maxSteps: 5, maxTokens: 10000 },
+                maxResponseTokens: 1000,
+                isCancelled: () => cancelled
+            });
+            assert.strictEqual(result.stopReason, 'cancelled');
+            assert.strictEqual(result.messages[2].content, 'Error: the run was cancelled');
+        });
+    });
+});
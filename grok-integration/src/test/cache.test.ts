@@ -1,5 +1,13 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { PersistentResponseCache } from '../utils/persistentCache';
+import { cacheEntryToMarkdown, CacheViewEntry, formatAge, previewResponse } from '../utils/cacheView';
+import { CACHE_STATS_KEY, cacheHitRate, CacheStatsTracker, formatCacheStatsReport } from '../utils/cacheStats';
+import { DEFAULT_MODEL_PRICING, estimateCost } from '../utils/pricing';
 
 // Test the caching functionality specifically
 describe('Cache Management Tests', () => {
@@ -58,4 +66,193 @@ describe('Cache Management Tests', () => {
             assert.ok(true, 'Placeholder for LRU tests');
         });
     });
+
+    describe('Persistent Cache Tier', () => {
+        const hour = 60 * 60 * 1000;
+        let storageDir: string;
+
+        beforeEach(() => {
+            storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'grok-cache-'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(storageDir, { recursive: true, force: true });
+        });
+
+        it('should survive a reload', async () => {
+            const first = new PersistentResponseCache(storageDir, 1024 * 1024, hour, text => text);
+            await first.load();
+            first.set('key', { response: 'cached answer', timestamp: Date.now(), tokenCount: 5 });
+            await first.flush();
+
+            const second = new PersistentResponseCache(storageDir, 1024 * 1024, hour, text => text);
+            await second.load();
+            assert.strictEqual(second.get('key')?.response, 'cached answer');
+        });
+
+        it('should redact responses before writing them', async () => {
+            const cache = new PersistentResponseCache(storageDir, 1024 * 1024, hour, text => text.replace('secret', 'REDACTED'));
+            await cache.load();
+            cache.set('key', { response: 'password is secret', timestamp: Date.now(), tokenCount: 5 });
+            await cache.flush();
+
+            const onDisk = fs.readFileSync(cache.filePath, 'utf8');
+            assert.ok(!onDisk.includes('secret'));
+            assert.ok(onDisk.includes('REDACTED'));
+        });
+
+        it('should start empty and keep the corrupt file aside', async () => {
+            const cache = new PersistentResponseCache(storageDir, 1024 * 1024, hour, text => text);
+            fs.writeFileSync(cache.filePath, '{ not json');
+            await cache.load();
+            assert.strictEqual(cache.size, 0);
+            assert.ok(fs.existsSync(`${cache.filePath}.corrupt`));
+        });
+
+        it('should skip invalid and expired entries on load', async () => {
+            const cache = new PersistentResponseCache(storageDir, 1024 * 1024, hour, text => text);
+            fs.writeFileSync(cache.filePath, JSON.stringify({
+                version: 1,
+                entries: {
+                    valid: { response: 'ok', timestamp: Date.now(), tokenCount: 1 },
+                    expired: { response: 'old', timestamp: Date.now() - 2 * hour, tokenCount: 1 },
+                    broken: { response: 42 }
+                }
+            }));
+            await cache.load();
+            assert.deepStrictEqual(cache.keys(), ['valid']);
+        });
+
+        it('should evict the oldest entries when over the size limit', async () => {
+            let evictions = 0;
+            const cache = new PersistentResponseCache(storageDir, 400, hour, text => text, count => evictions += count);
+            await cache.load();
+            const now = Date.now();
+            cache.set('old', { response: 'a'.repeat(150), timestamp: now - 1000, tokenCount: 1 });
+            cache.set('new', { response: 'b'.repeat(150), timestamp: now, tokenCount: 1 });
+            cache.set('newest', { response: 'c'.repeat(150), timestamp: now + 1, tokenCount: 1 });
+            assert.strictEqual(cache.get('old'), undefined);
+            assert.ok(cache.get('newest'));
+            assert.strictEqual(evictions, 2);
+            await cache.flush();
+        });
+    });
+
+    describe('Cache Browser', () => {
+        const entry: CacheViewEntry = {
+            key: 'v2-0123456789abcdef',
+            action: 'explain',
+            language: 'typescript',
+            model: 'grok-3-mini',
+            timestamp: Date.UTC(2025, 0, 1),
+            tokenCount: 42,
+            response: '## Summary\n\nAdds two numbers.\n\n```ts\nconst x = 1;\n```',
+            tier: 'memory',
+            canRerun: true
+        };
+
+        it('should format entry ages', () => {
+            assert.strictEqual(formatAge(10 * 1000), 'just now');
+            assert.strictEqual(formatAge(5 * 60 * 1000), '5m ago');
+            assert.strictEqual(formatAge(3 * 60 * 60 * 1000), '3h ago');
+            assert.strictEqual(formatAge(2 * 24 * 60 * 60 * 1000), '2d ago');
+        });
+
+        it('should strip Markdown and code from previews', () => {
+            assert.strictEqual(previewResponse(entry.response), 'Summary Adds two numbers.');
+            assert.ok(previewResponse('word '.repeat(100), 20).endsWith('…'));
+            assert.strictEqual(previewResponse('word '.repeat(100), 20).length, 20);
+        });
+
+        it('should export entries with their metadata', () => {
+            const markdown = cacheEntryToMarkdown(entry, entry.timestamp + 60 * 60 * 1000);
+            assert.ok(markdown.startsWith('# Grok: explain'));
+            assert.ok(markdown.includes('**Model:** grok-3-mini'));
+            assert.ok(markdown.includes('(1h ago)'));
+            assert.ok(markdown.endsWith(entry.response));
+        });
+    });
+
+    describe('Cache Statistics', () => {
+        // Minimal in-memory stand-in for workspaceState
+        class MemoryMemento implements vscode.Memento {
+            private values = new Map<string, unknown>();
+            keys(): readonly string[] {
+                return Array.from(this.values.keys());
+            }
+            get<T>(key: string, defaultValue?: T): T | undefined {
+                return this.values.has(key) ? this.values.get(key) as T : defaultValue;
+            }
+            async update(key: string, value: unknown): Promise<void> {
+                this.values.set(key, value);
+            }
+        }
+
+        it('should count outcomes and savings', async () => {
+            const tracker = new CacheStatsTracker(new MemoryMemento());
+            tracker.recordHit(1000, 500, 0.01);
+            tracker.recordHit(200, 100, undefined);
+            tracker.recordMiss();
+            tracker.recordExpiration(2);
+            tracker.recordEviction();
+
+            const stats = tracker.snapshot;
+            assert.strictEqual(stats.hits, 2);
+            assert.strictEqual(stats.misses, 1);
+            assert.strictEqual(stats.expirations, 2);
+            assert.strictEqual(stats.evictions, 1);
+            assert.strictEqual(stats.promptTokensSaved, 1200);
+            assert.strictEqual(stats.responseTokensSaved, 600);
+            assert.strictEqual(stats.costSaved, 0.01);
+            assert.strictEqual(stats.unpricedHits, 1);
+            assert.strictEqual(cacheHitRate(stats), 2 / 3);
+            await tracker.flush();
+        });
+
+        it('should persist counters in workspace state', async () => {
+            const state = new MemoryMemento();
+            const tracker = new CacheStatsTracker(state);
+            tracker.recordMiss();
+            await tracker.flush();
+
+            assert.strictEqual(new CacheStatsTracker(state).snapshot.misses, 1);
+
+            await tracker.reset();
+            assert.strictEqual((state.get(CACHE_STATS_KEY) as { misses: number }).misses, 0);
+        });
+
+        it('should ignore malformed stored counters', () => {
+            const state = new MemoryMemento();
+            void state.update(CACHE_STATS_KEY, { hits: 'many', misses: -4, evictions: 3 });
+            const stats = new CacheStatsTracker(state).snapshot;
+            assert.strictEqual(stats.hits, 0);
+            assert.strictEqual(stats.misses, 0);
+            assert.strictEqual(stats.evictions, 3);
+        });
+
+        it('should estimate cost from per-million prices', () => {
+            const pricing = { 'grok-4': { input: 3, output: 15 } };
+            assert.strictEqual(estimateCost('grok-4', 1_000_000, 0, pricing), 3);
+            assert.strictEqual(estimateCost('grok-4-0709', 0, 1_000_000, pricing), 15);
+            assert.strictEqual(estimateCost('unknown-model', 1000, 1000, pricing), undefined);
+            assert.ok(DEFAULT_MODEL_PRICING['grok-code-fast-1']);
+        });
+
+        it('should render a report with savings and cache usage', () => {
+            const tracker = new CacheStatsTracker(new MemoryMemento());
+            tracker.recordHit(100, 50, undefined);
+            const report = formatCacheStatsReport(tracker.snapshot, {
+                enabled: true,
+                entries: 3,
+                maxEntries: 100,
+                ttlMinutes: 30,
+                entriesPerModel: new Map([['grok-4', 3]])
+            });
+            assert.ok(report.includes('| Hit rate | 100.0% |'));
+            assert.ok(report.includes('**On disk:** disabled'));
+            assert.ok(report.includes('- grok-4: 3'));
+            assert.ok(report.includes('modelPricing'));
+            void tracker.flush();
+        });
+    });
 });
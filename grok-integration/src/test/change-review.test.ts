@@ -0,0 +1,128 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+
+import { applyReviewHunks, computeReviewHunks, rebaseChanges } from '../utils/changeReview';
+import { ApplySnapshot, ApplySnapshotStore, hashContent } from '../utils/applySnapshots';
+
+describe('Change Review Tests', () => {
+
+    describe('computeReviewHunks', () => {
+        it('should find no hunks for identical content', () => {
+            assert.deepStrictEqual(computeReviewHunks('a\nb', 'a\nb'), []);
+        });
+
+        it('should split distant changes into separate hunks', () => {
+            const original = ['1', '2', '3', '4', '5', '6', '7', '8'].join('\n');
+            const proposed = ['1', 'two', '3', '4', '5', '6', '7', 'eight'].join('\n');
+            const hunks = computeReviewHunks(original, proposed);
+            assert.deepStrictEqual(hunks.map(hunk => [hunk.originalStart, hunk.originalLines, hunk.proposedLines]), [
+                [1, ['2'], ['two']],
+                [7, ['8'], ['eight']]
+            ]);
+        });
+
+        it('should merge changes separated by a couple of unchanged lines', () => {
+            const hunks = computeReviewHunks('a\nb\nc\nd\ne', 'a\nB\nc\nD\ne');
+            assert.strictEqual(hunks.length, 1);
+            assert.deepStrictEqual(hunks[0].originalLines, ['b', 'c', 'd']);
+            assert.deepStrictEqual(hunks[0].proposedLines, ['B', 'c', 'D']);
+        });
+
+        it('should report pure insertions and new files', () => {
+            assert.deepStrictEqual(computeReviewHunks('a\nc', 'a\nb\nc').map(hunk => [hunk.originalStart, hunk.originalLines, hunk.proposedLines]), [[1, [], ['b']]]);
+            assert.strictEqual(computeReviewHunks('', 'new\nfile').length, 1);
+        });
+    });
+
+    describe('applyReviewHunks', () => {
+        const original = ['1', '2', '3', '4', '5', '6', '7', '8'].join('\n');
+        const proposed = ['1', 'two', '3', '4', '5', '6', '7', 'eight'].join('\n');
+        const hunks = computeReviewHunks(original, proposed);
+
+        it('should rebuild the proposal when every hunk is accepted', () => {
+            assert.strictEqual(applyReviewHunks(original, hunks, new Set([0, 1])), proposed);
+        });
+
+        it('should keep rejected hunks as they were', () => {
+            assert.strictEqual(applyReviewHunks(original, hunks, new Set([1])), ['1', '2', '3', '4', '5', '6', '7', 'eight'].join('\n'));
+            assert.strictEqual(applyReviewHunks(original, hunks, new Set()), original);
+        });
+
+        it('should keep CRLF line endings', () => {
+            const crlfHunks = computeReviewHunks('a\r\nb\r\n', 'a\r\nB\r\n');
+            assert.strictEqual(applyReviewHunks('a\r\nb\r\n', crlfHunks, new Set([0])), 'a\r\nB\r\n');
+        });
+    });
+
+    describe('rebaseChanges', () => {
+        const base = ['function a() {', '  return 1;', '}', '', 'function b() {', '  return 2;', '}'].join('\n');
+        const proposed = ['function a() {', '  return 1;', '}', '', 'function b() {', '  return 20;', '}'].join('\n');
+
+        it('should move edits onto content that shifted after the request', () => {
+            const current = ['// header', '// added later', base].join('\n');
+            const result = rebaseChanges(base, proposed, current);
+            assert.strictEqual(result.content, ['// header', '// added later', proposed].join('\n'));
+            assert.ok(result.results.every(block => block.applied));
+            assert.match(result.results[0].message || '', /offset \+2 lines/);
+        });
+
+        it('should report edits whose surrounding code was changed', () => {
+            const current = base.replace('  return 2;', '  return 3;');
+            const result = rebaseChanges(base, proposed, current);
+            assert.strictEqual(result.content, current);
+            assert.strictEqual(result.results[0].applied, false);
+        });
+
+        it('should insert lines after the same context', () => {
+            const insertion = base.replace('}\n\nfunction b', '}\n\n// b doubles\nfunction b');
+            const current = `import x;\n${base}`;
+            const result = rebaseChanges(base, insertion, current);
+            assert.strictEqual(result.content, `import x;\n${insertion}`);
+        });
+    });
+
+    describe('Apply Snapshots', () => {
+        const snapshot: ApplySnapshot = {
+            timestamp: 1700000000000,
+            files: [
+                { file: 'src/a.ts', uri: 'file:///w/src/a.ts', existed: true, content: 'before', appliedHash: hashContent('after') },
+                { file: 'src/new.ts', uri: 'file:///w/src/new.ts', existed: false, content: '', appliedHash: hashContent('created') }
+            ]
+        };
+        let storageDir: string;
+
+        beforeEach(() => {
+            storageDir = fs.mkdtempSync(path.join(os.tmpdir(), 'grok-snapshots-'));
+        });
+
+        afterEach(() => {
+            fs.rmSync(storageDir, { recursive: true, force: true });
+        });
+
+        it('should keep the last snapshot across store instances', async () => {
+            await new ApplySnapshotStore(storageDir).save(snapshot);
+            assert.deepStrictEqual(await new ApplySnapshotStore(storageDir).getLatest(), snapshot);
+        });
+
+        it('should forget the snapshot once cleared', async () => {
+            const store = new ApplySnapshotStore(storageDir);
+            await store.save(snapshot);
+            await store.clear();
+            assert.strictEqual(await new ApplySnapshotStore(storageDir).getLatest(), undefined);
+        });
+
+        it('should ignore an unreadable snapshot file', async () => {
+            const store = new ApplySnapshotStore(storageDir);
+            fs.writeFileSync(store.filePath!, '{ not json');
+            assert.strictEqual(await store.getLatest(), undefined);
+        });
+
+        it('should work in memory without a storage directory', async () => {
+            const store = new ApplySnapshotStore();
+            await store.save(snapshot);
+            assert.strictEqual((await store.getLatest())?.files.length, 2);
+        });
+    });
+});
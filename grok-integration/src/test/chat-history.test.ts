@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import OpenAI from 'openai';
+
+import { buildChatHistoryMessages, buildFollowUpMessages, ChatTurn, HistoryOptions } from '../utils/chatHistory';
+
+type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+const PARTICIPANT = 'grok-integration.grok';
+
+// One token per character keeps the budget arithmetic readable
+const options = (tokenBudget: number): HistoryOptions => ({
+    participant: PARTICIPANT,
+    tokenBudget,
+    prepareText: text => text.replace('sk-secret', 'REDACTED'),
+    countTokens: messages => messages.reduce((sum, message) => sum + String(message.content).length, 0)
+});
+
+const exchange = (prompt: string, text: string, participant = PARTICIPANT): ChatTurn[] => [
+    { kind: 'request', participant, prompt },
+    { kind: 'response', participant, text }
+];
+
+describe('Chat History Tests', () => {
+
+    describe('buildChatHistoryMessages', () => {
+        it('should map request and response turns to user and assistant messages', () => {
+            const turns: ChatTurn[] = [
+                ...exchange('explain', 'it adds'),
+                { kind: 'request', participant: PARTICIPANT, prompt: 'a.ts', command: 'test' },
+                { kind: 'response', participant: PARTICIPANT, text: '  tests  ' }
+            ];
+            assert.deepStrictEqual(buildChatHistoryMessages(turns, options(1000)), [
+                { role: 'user', content: 'explain' },
+                { role: 'assistant', content: 'it adds' },
+                { role: 'user', content: '/test a.ts' },
+                { role: 'assistant', content: 'tests' }
+            ]);
+        });
+
+        it('should skip turns of other participants and unanswered or empty exchanges', () => {
+            const turns: ChatTurn[] = [
+                ...exchange('other question', 'other answer', 'someone.else'),
+                { kind: 'request', participant: PARTICIPANT, prompt: 'unanswered' },
+                ...exchange('empty answer', '   '),
+                ...exchange('kept', 'answer')
+            ];
+            assert.deepStrictEqual(buildChatHistoryMessages(turns, options(1000)), [
+                { role: 'user', content: 'kept' },
+                { role: 'assistant', content: 'answer' }
+            ]);
+        });
+
+        it('should redact history like new context', () => {
+            const messages = buildChatHistoryMessages(exchange('key sk-secret', 'ok'), options(1000));
+            assert.strictEqual(messages[0].content, 'key REDACTED');
+        });
+
+        it('should keep every pair when they exactly fill the budget', () => {
+            // Each pair costs 4 tokens: "q1" + "a1"
+            const turns = [...exchange('q1', 'a1'), ...exchange('q2', 'a2')];
+            assert.strictEqual(buildChatHistoryMessages(turns, options(8)).length, 4);
+        });
+
+        it('should drop the oldest pairs first when over the budget', () => {
+            const turns = [...exchange('q1', 'a1'), ...exchange('q2', 'a2'), ...exchange('q3', 'a3')];
+            assert.deepStrictEqual(buildChatHistoryMessages(turns, options(11)).map(message => message.content), ['q2', 'a2', 'q3', 'a3']);
+            assert.deepStrictEqual(buildChatHistoryMessages(turns, options(3)), []);
+            assert.deepStrictEqual(buildChatHistoryMessages(turns, options(-5)), []);
+        });
+    });
+
+    describe('buildFollowUpMessages', () => {
+        it('should append the prepared question to the whole conversation without changing it', () => {
+            const history: ChatMessage[] = [
+                { role: 'system', content: 'system' },
+                { role: 'user', content: 'review this code' },
+                { role: 'assistant', content: 'looks fine' }
+            ];
+            const { userMessage, messages } = buildFollowUpMessages(history, 'use sk-secret?', text => text.replace('sk-secret', 'REDACTED'));
+            assert.deepStrictEqual(userMessage, { role: 'user', content: 'use REDACTED?' });
+            assert.deepStrictEqual(messages, [...history, userMessage]);
+            assert.strictEqual(history.length, 3);
+        });
+    });
+});
@@ -0,0 +1,204 @@
+import * as assert from 'assert';
+
+import { applyBlockChange, applySearchReplace, applyUnifiedDiff, formatApplyReport, parseGrokCodeChanges } from '../utils/codeChanges';
+
+describe('Code Change Format Tests', () => {
+
+    describe('SEARCH/REPLACE parsing', () => {
+        it('should parse several blocks under one file header', () => {
+            const markdown = [
+                '--- FILE: src/app.ts ---',
+                '```typescript',
+                '<<<<<<< SEARCH',
+                'const a = 1;',
+                '=======',
+                'const a = 2;',
+                '>>>>>>> REPLACE',
+                '<<<<<<< SEARCH',
+                'const b = 1;',
+                '=======',
+                '>>>>>>> REPLACE',
+                '```'
+            ].join('\n');
+
+            const [change] = parseGrokCodeChanges(markdown);
+            assert.strictEqual(change.file, 'src/app.ts');
+            assert.strictEqual(change.format, 'search-replace');
+            assert.deepStrictEqual(change.searchReplace, [
+                { search: 'const a = 1;', replace: 'const a = 2;' },
+                { search: 'const b = 1;', replace: '' }
+            ]);
+        });
+
+        it('should skip unsafe paths', () => {
+            const markdown = '--- FILE: ../outside.ts ---\n```ts\n<<<<<<< SEARCH\na\n=======\nb\n>>>>>>> REPLACE\n```';
+            assert.strictEqual(parseGrokCodeChanges(markdown).length, 0);
+        });
+    });
+
+    describe('Unified diff parsing', () => {
+        it('should parse files and hunks from git-style headers', () => {
+            const markdown = [
+                '```diff',
+                'diff --git a/src/a.ts b/src/a.ts',
+                '--- a/src/a.ts',
+                '+++ b/src/a.ts',
+                '@@ -1,3 +1,3 @@',
+                ' line 1',
+                '-line 2',
+                '+line two',
+                ' line 3',
+                '--- a/src/b.ts',
+                '+++ b/src/b.ts',
+                '@@ -10 +10,2 @@',
+                ' keep',
+                '+added',
+                '```'
+            ].join('\n');
+
+            const changes = parseGrokCodeChanges(markdown);
+            assert.deepStrictEqual(changes.map(change => change.file), ['src/a.ts', 'src/b.ts']);
+            assert.strictEqual(changes[0].format, 'diff');
+            assert.strictEqual(changes[0].hunks![0].oldStart, 1);
+            assert.deepStrictEqual(changes[0].hunks![0].lines, [' line 1', '-line 2', '+line two', ' line 3']);
+            assert.strictEqual(changes[1].hunks![0].oldLines, 1);
+        });
+
+        it('should use the file header when the diff has no file lines', () => {
+            const markdown = '--- FILE: src/c.ts ---\n```diff\n@@ -1 +1 @@\n-old\n+new\n```';
+            const [change] = parseGrokCodeChanges(markdown);
+            assert.strictEqual(change.file, 'src/c.ts');
+            assert.strictEqual(change.hunks!.length, 1);
+        });
+    });
+
+    describe('File operation parsing', () => {
+        it('should parse create, delete and rename operations in order', () => {
+            const markdown = [
+                'Move the helper first:',
+                '--- RENAME FILE: src/old.ts -> src/utils/helper.ts ---',
+                '--- CREATE FILE: src/utils/index.ts ---',
+                '```ts',
+                "export * from './helper';",
+                '```',
+                'The legacy entry point is no longer used:',
+                '--- DELETE FILE: src/legacy.ts ---'
+            ].join('\n');
+
+            const changes = parseGrokCodeChanges(markdown);
+            assert.deepStrictEqual(changes.map(change => [change.format, change.file, change.newFile]), [
+                ['rename', 'src/old.ts', 'src/utils/helper.ts'],
+                ['create', 'src/utils/index.ts', undefined],
+                ['delete', 'src/legacy.ts', undefined]
+            ]);
+            assert.strictEqual(changes[1].code, "export * from './helper';");
+        });
+
+        it('should not give a code block to a preceding delete header', () => {
+            const markdown = '--- DELETE FILE: src/a.ts ---\n```ts\nconst a = 1;\n```';
+            const changes = parseGrokCodeChanges(markdown);
+            assert.deepStrictEqual(changes.map(change => change.format), ['delete']);
+        });
+
+        it('should treat a diff to /dev/null as a delete', () => {
+            const markdown = '```diff\n--- a/src/gone.ts\n+++ /dev/null\n@@ -1 +0,0 @@\n-const gone = true;\n```';
+            const changes = parseGrokCodeChanges(markdown);
+            assert.deepStrictEqual(changes.map(change => [change.format, change.file]), [['delete', 'src/gone.ts']]);
+        });
+
+        it('should skip operations on unsafe paths', () => {
+            const markdown = [
+                '--- DELETE FILE: ../secrets.txt ---',
+                '--- RENAME FILE: src/a.ts -> /etc/passwd ---',
+                '--- RENAME FILE: src/a.ts ---',
+                '--- CREATE FILE: ../../evil.sh ---',
+                '```sh',
+                'echo hi',
+                '```'
+            ].join('\n');
+            assert.strictEqual(parseGrokCodeChanges(markdown).length, 0);
+        });
+    });
+
+    describe('applySearchReplace', () => {
+        const content = ['function a() {', '    return 1;', '}', '', 'function b() {', '    return 2;', '}'].join('\n');
+
+        it('should replace an exact match', () => {
+            const result = applySearchReplace(content, [{ search: '    return 2;', replace: '    return 3;' }]);
+            assert.ok(result.content.includes('return 3;'));
+            assert.deepStrictEqual(result.results, [{ index: 1, applied: true, line: 6, message: undefined }]);
+        });
+
+        it('should anchor ignoring whitespace and re-indent the replacement', () => {
+            const result = applySearchReplace(content, [{
+                search: '  return 2;',
+                replace: '  const value = 20;\n  return value;'
+            }]);
+            assert.strictEqual(result.results[0].applied, true);
+            assert.strictEqual(result.results[0].message, 'matched ignoring whitespace');
+            assert.ok(result.content.endsWith('function b() {\n    const value = 20;\n    return value;\n}'));
+        });
+
+        it('should report blocks that match nowhere or in several places', () => {
+            const result = applySearchReplace(content, [
+                { search: 'return 42;', replace: 'x' },
+                { search: '}', replace: 'x' },
+                { search: '    return 1;', replace: '    return 10;' }
+            ]);
+            assert.deepStrictEqual(result.results.map(block => block.applied), [false, false, true]);
+            assert.ok(result.results[0].message!.includes('not found'));
+            assert.ok(result.results[1].message!.includes('matches 2 places'));
+            assert.ok(result.content.includes('return 10;'));
+        });
+
+        it('should create content from an empty SEARCH', () => {
+            const result = applySearchReplace('', [{ search: '', replace: 'export const x = 1;' }]);
+            assert.strictEqual(result.content, 'export const x = 1;');
+        });
+
+        it('should preserve CRLF line endings', () => {
+            const result = applySearchReplace('a\r\nb\r\nc', [{ search: 'b', replace: 'B' }]);
+            assert.strictEqual(result.content, 'a\r\nB\r\nc');
+        });
+    });
+
+    describe('applyUnifiedDiff', () => {
+        const [change] = parseGrokCodeChanges('```diff\n--- a/x.ts\n+++ b/x.ts\n@@ -2,2 +2,2 @@\n b\n-c\n+C\n```');
+
+        it('should apply a hunk at its stated position', () => {
+            const result = applyUnifiedDiff('a\nb\nc\nd', change.hunks!);
+            assert.strictEqual(result.content, 'a\nb\nC\nd');
+            assert.strictEqual(result.results[0].line, 2);
+        });
+
+        it('should apply a hunk whose line numbers drifted', () => {
+            const result = applyUnifiedDiff('new\nlines\na\nb\nc\nd', change.hunks!);
+            assert.strictEqual(result.content, 'new\nlines\na\nb\nC\nd');
+            assert.strictEqual(result.results[0].message, 'offset +2 lines');
+        });
+
+        it('should report a hunk whose context is missing', () => {
+            const result = applyUnifiedDiff('x\ny', change.hunks!);
+            assert.strictEqual(result.results[0].applied, false);
+            assert.strictEqual(result.content, 'x\ny');
+        });
+
+        it('should list failures in the report', () => {
+            const report = formatApplyReport([{ file: 'x.ts', format: 'diff', results: applyUnifiedDiff('x', change.hunks!).results }]);
+            assert.ok(report.includes('## x.ts'));
+            assert.ok(report.includes('0 of 1 hunk(s) applied.'));
+            assert.ok(report.includes('Hunk 1: ❌ not applied'));
+        });
+    });
+
+    describe('applyBlockChange', () => {
+        it('should replace a line range', () => {
+            const result = applyBlockChange('a\nb\nc\nd', { file: 'x.ts', code: 'B\nC', action: 'replace', lineStart: 2, lineEnd: 3 });
+            assert.deepStrictEqual(result, { content: 'a\nB\nC\nd', placement: 'lines' });
+        });
+
+        it('should leave unmatched blocks to the caller', () => {
+            assert.strictEqual(applyBlockChange('a\nb', { file: 'x.ts', code: 'unrelated', action: 'replace' }), undefined);
+        });
+    });
+});
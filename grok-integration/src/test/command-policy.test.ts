@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+
+import { CommandPolicy, evaluateCommand, formatCommandResult, stripAnsi, truncateCommandOutput } from '../utils/commandPolicy';
+
+describe('Command Policy Tests', () => {
+    const policy: CommandPolicy = { allow: ['npm test', 'git status'], deny: ['rm -rf', 'sudo', 'git push'] };
+
+    describe('evaluateCommand', () => {
+        it('should allow commands that start with an allowed prefix', () => {
+            assert.strictEqual(evaluateCommand('npm test', policy).allowed, true);
+            assert.strictEqual(evaluateCommand('  npm   test -- --grep parser ', policy).allowed, true);
+            assert.strictEqual(evaluateCommand('npm test 2>&1', policy).allowed, true);
+        });
+
+        it('should refuse commands that only share the first characters of an allowed prefix', () => {
+            assert.strictEqual(evaluateCommand('npm tests', policy).allowed, false);
+            assert.match(evaluateCommand('npm install', policy).reason || '', /not on the allow list/);
+        });
+
+        it('should check every part of a chained command', () => {
+            assert.strictEqual(evaluateCommand('npm test && git status', policy).allowed, true);
+            assert.strictEqual(evaluateCommand('npm test && npm publish', policy).allowed, false);
+            assert.strictEqual(evaluateCommand('npm test; rm -rf /', policy).allowed, false);
+            assert.strictEqual(evaluateCommand('git status | sh', policy).allowed, false);
+        });
+
+        it('should treat line breaks as command separators', () => {
+            assert.strictEqual(evaluateCommand('npm test\ngit status', policy).allowed, true);
+            assert.match(evaluateCommand('npm test\nrm -rf ~', policy).reason || '', /deny list/);
+            assert.strictEqual(evaluateCommand('npm test\r\nsudo reboot', policy).allowed, false);
+            assert.strictEqual(evaluateCommand('npm test\rnpm publish', policy).allowed, false);
+            assert.strictEqual(evaluateCommand('make\nsudo reboot', { allow: [], deny: policy.deny }).allowed, false);
+        });
+
+        it('should refuse substitution and file redirection when an allow list is set', () => {
+            assert.match(evaluateCommand('npm test $(cat secret)', policy).reason || '', /substitution/);
+            assert.match(evaluateCommand('npm test `whoami`', policy).reason || '', /substitution/);
+            assert.match(evaluateCommand('npm test > out.txt', policy).reason || '', /redirecting/);
+        });
+
+        it('should apply the deny list even without an allow list', () => {
+            const denyOnly: CommandPolicy = { allow: [], deny: policy.deny };
+            assert.strictEqual(evaluateCommand('make build > log.txt', denyOnly).allowed, true);
+            assert.match(evaluateCommand('sudo make install', denyOnly).reason || '', /deny list/);
+            assert.strictEqual(evaluateCommand('CI=1 sudo make install', denyOnly).allowed, false);
+            assert.strictEqual(evaluateCommand('git push --force', denyOnly).allowed, false);
+        });
+
+        it('should refuse empty commands', () => {
+            assert.strictEqual(evaluateCommand('   ', { allow: [], deny: [] }).allowed, false);
+        });
+    });
+
+    describe('output', () => {
+        it('should keep the end of long output', () => {
+            const truncated = truncateCommandOutput('a'.repeat(30) + 'summary', 10);
+            assert.ok(truncated.endsWith('aaasummary'));
+            assert.match(truncated, /27 earlier characters omitted/);
+            assert.strictEqual(truncateCommandOutput('short', 10), 'short');
+        });
+
+        it('should strip terminal colors', () => {
+            assert.strictEqual(stripAnsi('\x1b[32m✓ passed\x1b[0m'), '✓ passed');
+        });
+
+        it('should describe the result for the model', () => {
+            const passed = formatCommandResult('npm test', { exitCode: 0, output: '\x1b[1m3 passing\x1b[0m\n', timedOut: false, cancelled: false });
+            assert.strictEqual(passed, '$ npm test\nExit code: 0\n\nOutput:\n3 passing');
+            const timedOut = formatCommandResult('npm test', { exitCode: undefined, output: '', timedOut: true, cancelled: false });
+            assert.match(timedOut, /time limit/);
+            assert.match(timedOut, /\(no output\)/);
+        });
+    });
+});
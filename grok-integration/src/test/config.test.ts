@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+
+import { deleteApiKey, getApiKey, initializeSecretStorage, migrateApiKeyFromSettings, setApiKey } from '../utils/config';
+
+class FakeSecretStorage implements vscode.SecretStorage {
+    readonly values = new Map<string, string>();
+    private readonly changeEmitter = new vscode.EventEmitter<vscode.SecretStorageChangeEvent>();
+    readonly onDidChange = this.changeEmitter.event;
+
+    async keys(): Promise<string[]> {
+        return [...this.values.keys()];
+    }
+
+    async get(key: string): Promise<string | undefined> {
+        return this.values.get(key);
+    }
+
+    async store(key: string, value: string): Promise<void> {
+        this.values.set(key, value);
+    }
+
+    async delete(key: string): Promise<void> {
+        this.values.delete(key);
+    }
+}
+
+// Just enough of WorkspaceConfiguration for the legacy apiKey setting, per scope
+function createLegacySettings(scopes: { globalValue?: string; workspaceValue?: string; workspaceFolderValue?: string }) {
+    const updates: Array<{ target: vscode.ConfigurationTarget; value: unknown }> = [];
+    const configuration: Pick<vscode.WorkspaceConfiguration, 'inspect' | 'update'> = {
+        inspect: <T>(section: string) => section === 'apiKey' ? { key: 'grokIntegration.apiKey', ...scopes } as { key: string; globalValue?: T } : undefined,
+        update: async (_section: string, value: unknown, target?: vscode.ConfigurationTarget | boolean | null) => {
+            updates.push({ target: target as vscode.ConfigurationTarget, value });
+        }
+    };
+    return { configuration, updates };
+}
+
+describe('API Key Storage Tests', () => {
+    let secrets: FakeSecretStorage;
+
+    beforeEach(() => {
+        secrets = new FakeSecretStorage();
+        initializeSecretStorage(secrets);
+    });
+
+    it('should store, read and delete the key in secret storage', async () => {
+        await setApiKey('  xai-secret  ');
+        assert.strictEqual(secrets.values.get('grokIntegration.apiKey'), 'xai-secret');
+        assert.strictEqual(await getApiKey(), 'xai-secret');
+        await deleteApiKey();
+        assert.strictEqual(await getApiKey(), undefined);
+    });
+
+    it('should treat a blank stored key as missing', async () => {
+        secrets.values.set('grokIntegration.apiKey', '   ');
+        assert.strictEqual(await getApiKey(), undefined);
+    });
+
+    it('should move a key from settings into secret storage and clear every scope that had it', async () => {
+        const settings = createLegacySettings({ globalValue: ' xai-legacy ', workspaceValue: 'xai-legacy' });
+
+        assert.strictEqual(await migrateApiKeyFromSettings(settings.configuration), true);
+        assert.strictEqual(await getApiKey(), 'xai-legacy');
+        assert.deepStrictEqual(settings.updates, [
+            { target: vscode.ConfigurationTarget.Global, value: undefined },
+            { target: vscode.ConfigurationTarget.Workspace, value: undefined }
+        ]);
+    });
+
+    it('should do nothing when settings have no key', async () => {
+        const settings = createLegacySettings({});
+
+        assert.strictEqual(await migrateApiKeyFromSettings(settings.configuration), false);
+        assert.strictEqual(await getApiKey(), undefined);
+        assert.deepStrictEqual(settings.updates, []);
+    });
+
+    it('should not overwrite a key already in secret storage', async () => {
+        await setApiKey('xai-current');
+        const settings = createLegacySettings({ globalValue: 'xai-old' });
+
+        assert.strictEqual(await migrateApiKeyFromSettings(settings.configuration), true);
+        assert.strictEqual(await getApiKey(), 'xai-current');
+        // The old key is still removed from settings.json
+        assert.deepStrictEqual(settings.updates, [{ target: vscode.ConfigurationTarget.Global, value: undefined }]);
+    });
+});
@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+
+import { DiagnosticEntry, findNewErrors, formatDiagnostic, formatDiagnosticList, MAX_LISTED_DIAGNOSTICS } from '../utils/diagnosticsCheck';
+
+describe('Diagnostics Check Tests', () => {
+    const missingName: DiagnosticEntry = { file: 'src/a.ts', line: 4, message: "Cannot find name 'foo'.", source: 'ts', code: '2304' };
+    const typeError: DiagnosticEntry = { file: 'src/b.ts', line: 10, message: "Type 'string' is not assignable to type 'number'.", source: 'ts', code: '2322' };
+
+    describe('findNewErrors', () => {
+        it('should ignore errors that were there before, even if their line moved', () => {
+            assert.deepStrictEqual(findNewErrors([missingName], [{ ...missingName, line: 12 }]), []);
+        });
+
+        it('should report errors that appeared after the apply', () => {
+            assert.deepStrictEqual(findNewErrors([missingName], [missingName, typeError]), [typeError]);
+        });
+
+        it('should report another copy of an existing error', () => {
+            const second = { ...missingName, line: 20 };
+            assert.deepStrictEqual(findNewErrors([missingName], [missingName, second]), [second]);
+        });
+
+        it('should treat the same message in another file as new', () => {
+            const elsewhere = { ...missingName, file: 'src/c.ts' };
+            assert.deepStrictEqual(findNewErrors([missingName], [elsewhere]), [elsewhere]);
+        });
+    });
+
+    describe('formatting', () => {
+        it('should show location, origin and message on one line', () => {
+            assert.strictEqual(formatDiagnostic({ ...missingName, message: "Cannot find\n  name 'foo'." }), "src/a.ts:4 [ts 2304] Cannot find name 'foo'.");
+            assert.strictEqual(formatDiagnostic({ file: 'x.py', line: 1, message: 'invalid syntax' }), 'x.py:1 invalid syntax');
+        });
+
+        it('should cap long lists', () => {
+            const entries = Array.from({ length: MAX_LISTED_DIAGNOSTICS + 5 }, (_, index) => ({ ...typeError, line: index + 1 }));
+            const lines = formatDiagnosticList(entries).split('\n');
+            assert.strictEqual(lines.length, MAX_LISTED_DIAGNOSTICS + 1);
+            assert.strictEqual(lines[lines.length - 1], '- … and 5 more');
+        });
+    });
+});
@@ -253,6 +253,31 @@ const b = 2;
 
 			assert.notStrictEqual(key1, key2);
 		});
+
+		it('should generate different keys for different models and parameters', () => {
+			const code = 'function it() {}';
+			const base = { model: 'grok-3-mini', systemPrompt: 'Be precise.', temperature: 0.2, maxTokens: 9000 };
+			const key = generateCacheKey(code, 'typescript', 'explain', base);
+
+			assert.notStrictEqual(key, generateCacheKey(code, 'typescript', 'explain', { ...base, model: 'grok-4' }));
+			assert.notStrictEqual(key, generateCacheKey(code, 'typescript', 'explain', { ...base, systemPrompt: 'Be brief.' }));
+			assert.notStrictEqual(key, generateCacheKey(code, 'typescript', 'explain', { ...base, temperature: 0.7 }));
+			assert.notStrictEqual(key, generateCacheKey(code, 'typescript', 'explain', { ...base, maxTokens: 2000 }));
+			assert.notStrictEqual(key, generateCacheKey(code, 'typescript', 'explain', { ...base, promptFormat: 'verbatim' }));
+			assert.strictEqual(key, generateCacheKey(code, 'typescript', 'explain', { ...base }));
+		});
+
+		it('should prefix keys with the schema version', () => {
+			assert.ok(/^v\d+-[0-9a-f]{16}$/.test(generateCacheKey('x', 'typescript', 'explain')));
+		});
+
+		it('should distinguish large inputs that differ only at the end', () => {
+			const prefix = 'a'.repeat(60000);
+			assert.notStrictEqual(
+				generateCacheKey(prefix + 'b', 'typescript', 'explain'),
+				generateCacheKey(prefix + 'c', 'typescript', 'explain')
+			);
+		});
 	});
 
 	describe('Integration Tests', () => {
@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+
+import { buildCompletionWindow, buildInlineCompletionPrompt, cleanCompletion, CompletionWindow, isLanguageEnabled, setLanguageEnabled, waitUnlessCancelled } from '../utils/inlineCompletions';
+
+describe('Inline Completions Tests', () => {
+
+    describe('buildCompletionWindow', () => {
+        it('should split the text at the cursor', () => {
+            assert.deepStrictEqual(buildCompletionWindow('const a = 1;\nconst b', 20), { prefix: 'const a = 1;\nconst b', suffix: '' });
+            assert.deepStrictEqual(buildCompletionWindow('foo(bar)', 4), { prefix: 'foo(', suffix: 'bar)' });
+        });
+
+        it('should cut long windows at line boundaries', () => {
+            const text = 'line one\nline two\nline three\nline four';
+            const offset = text.indexOf('three');
+            const window = buildCompletionWindow(text, offset, 8, 12);
+            assert.strictEqual(window.prefix, 'line ');
+            assert.strictEqual(window.suffix, 'three');
+        });
+    });
+
+    describe('buildInlineCompletionPrompt', () => {
+        it('should mark the cursor and include the open file excerpts first', () => {
+            const prompt = buildInlineCompletionPrompt('src/a.ts', 'typescript', { prefix: 'const x = ', suffix: ';' }, [{ path: 'src/b.ts', content: 'export const y = 2;' }]);
+            assert.strictEqual(prompt, 'Excerpt of the open file src/b.ts:\nexport const y = 2;\n\nFile src/a.ts (typescript):\nconst x = <|cursor|>;');
+        });
+    });
+
+    describe('cleanCompletion', () => {
+        const window: CompletionWindow = { prefix: 'function add(a, b) {\n  return ', suffix: '\n}\n' };
+
+        it('should remove Markdown fences and trailing whitespace', () => {
+            assert.strictEqual(cleanCompletion('```js\na + b;\n```\n', window), 'a + b;');
+        });
+
+        it('should drop a restated start of the current line', () => {
+            assert.strictEqual(cleanCompletion('  return a + b;', window), 'a + b;');
+        });
+
+        it('should drop the code that already follows the cursor', () => {
+            assert.strictEqual(cleanCompletion('a + b;\n}', window), 'a + b;');
+            assert.strictEqual(cleanCompletion('bar', { prefix: 'foo(', suffix: ')' }), 'bar');
+            assert.strictEqual(cleanCompletion('bar)', { prefix: 'foo(', suffix: ')' }), 'bar');
+        });
+    });
+
+    describe('language settings', () => {
+        it('should fall back to "*" for languages without an entry', () => {
+            const setting = { '*': true, markdown: false };
+            assert.strictEqual(isLanguageEnabled(setting, 'typescript'), true);
+            assert.strictEqual(isLanguageEnabled(setting, 'markdown'), false);
+            assert.strictEqual(isLanguageEnabled(undefined, 'typescript'), false);
+        });
+
+        it('should set one language and keep the others', () => {
+            assert.deepStrictEqual(setLanguageEnabled({ '*': false, markdown: false, bad: 'yes' }, 'python', true), { '*': false, markdown: false, python: true });
+        });
+    });
+
+    describe('waitUnlessCancelled', () => {
+        it('should resolve false when cancelled during the wait', async () => {
+            const source = new vscode.CancellationTokenSource();
+            const waiting = waitUnlessCancelled(10000, source.token);
+            source.cancel();
+            assert.strictEqual(await waiting, false);
+            source.dispose();
+        });
+
+        it('should resolve true when the wait ends', async () => {
+            const source = new vscode.CancellationTokenSource();
+            assert.strictEqual(await waitUnlessCancelled(5, source.token), true);
+            source.dispose();
+        });
+    });
+});
@@ -12,7 +12,8 @@ export class MockWorkspaceConfiguration implements vscode.WorkspaceConfiguration
         'tokenMultiplier': 1.1,
         'apiKey': 'test-key',
         'model': 'grok-code-fast-1',
-        'maxTokens': 9000
+        'maxTokens': 9000,
+        'baseUrl': 'https://api.x.ai/v1'
     };
 
     get<T>(section: string): T | undefined;
@@ -0,0 +1,65 @@
+import * as assert from 'assert';
+
+import {
+    parseFrontMatter,
+    parsePromptFile,
+    renderPromptTemplate,
+    toPromptId,
+    usesVariable
+} from '../utils/promptLibrary';
+
+describe('Prompt Library Tests', () => {
+
+    describe('parseFrontMatter', () => {
+        it('should split attributes from the body', () => {
+            const result = parseFrontMatter('---\nname: Add Docs\ndescription: "Write docs"\n---\nDocument {{selection}}');
+            assert.strictEqual(result.attributes.name, 'Add Docs');
+            assert.strictEqual(result.attributes.description, 'Write docs');
+            assert.strictEqual(result.body, 'Document {{selection}}');
+        });
+
+        it('should return the whole text as body without front-matter', () => {
+            const result = parseFrontMatter('Just a prompt');
+            assert.deepStrictEqual(result.attributes, {});
+            assert.strictEqual(result.body, 'Just a prompt');
+        });
+    });
+
+    describe('parsePromptFile', () => {
+        it('should fall back to the file name and selection scope', () => {
+            const prompt = parsePromptFile('.grok/prompts/explain-errors.md', 'Explain {{diagnostics}}');
+            assert.ok(prompt);
+            assert.strictEqual(prompt!.id, 'explain-errors');
+            assert.strictEqual(prompt!.scope, 'selection');
+            assert.strictEqual(prompt!.model, undefined);
+        });
+
+        it('should clamp temperature and reject unsafe model names', () => {
+            const prompt = parsePromptFile('p.md', '---\nname: Test\nmodel: grok 4; rm -rf\ntemperature: 5\nscope: file\n---\nBody');
+            assert.ok(prompt);
+            assert.strictEqual(prompt!.model, undefined);
+            assert.strictEqual(prompt!.temperature, 2);
+            assert.strictEqual(prompt!.scope, 'file');
+        });
+
+        it('should skip prompts with an empty body', () => {
+            assert.strictEqual(parsePromptFile('empty.md', '---\nname: Empty\n---\n   '), undefined);
+        });
+    });
+
+    describe('renderPromptTemplate', () => {
+        it('should substitute known variables and keep unknown ones', () => {
+            const rendered = renderPromptTemplate('{{ language }}: {{selection}} {{unknown}}', { language: 'ts', selection: 'x' });
+            assert.strictEqual(rendered, 'ts: x {{unknown}}');
+        });
+
+        it('should detect variable usage', () => {
+            assert.ok(usesVariable('Review {{ input }}', 'input'));
+            assert.ok(!usesVariable('Review this', 'input'));
+        });
+    });
+
+    it('should build slash-command friendly ids', () => {
+        assert.strictEqual(toPromptId('Add Docs!'), 'add-docs');
+    });
+});
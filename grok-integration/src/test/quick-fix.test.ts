@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+
+import { buildQuickFixPrompt, extractReplacement, FIX_DIAGNOSTIC_COMMAND, GrokQuickFixProvider } from '../utils/quickFix';
+
+describe('Quick Fix Tests', () => {
+
+    describe('buildQuickFixPrompt', () => {
+        it('should include the diagnostic, related problems and the region with its line range', () => {
+            const prompt = buildQuickFixPrompt({
+                filePath: 'src/a.ts',
+                languageId: 'typescript',
+                diagnostic: { file: 'src/a.ts', line: 3, message: "Cannot find name 'totl'.", source: 'ts', code: '2304' },
+                related: [{ file: 'src/a.ts', line: 4, message: "'total' is declared but never used.", source: 'ts', code: '6133' }],
+                startLine: 2,
+                code: 'function sum(items) {\n  return totl;\n}',
+                functionName: 'sum'
+            });
+            assert.strictEqual(prompt, [
+                'Fix this problem in src/a.ts:',
+                "src/a.ts:3 [ts 2304] Cannot find name 'totl'.",
+                '',
+                'Related diagnostics:',
+                "- src/a.ts:4 [ts 6133] 'total' is declared but never used.",
+                '',
+                'The function sum, lines 2-4; reply with all of it, corrected:',
+                '```typescript',
+                'function sum(items) {\n  return totl;\n}',
+                '```'
+            ].join('\n'));
+        });
+    });
+
+    describe('extractReplacement', () => {
+        it('should return the first code block with its indentation', () => {
+            assert.strictEqual(extractReplacement('Fixed:\n```ts\n  return total;\n```\nDone.'), '  return total;');
+            assert.strictEqual(extractReplacement('```\r\na\r\n```'), 'a');
+        });
+
+        it('should return undefined without a code block', () => {
+            assert.strictEqual(extractReplacement('Rename totl to total.'), undefined);
+        });
+    });
+
+    describe('GrokQuickFixProvider', () => {
+        const document = { uri: { path: '/src/a.ts' } } as unknown as vscode.TextDocument;
+        const range = {} as vscode.Range;
+        const diagnostic = (message: string, severity: vscode.DiagnosticSeverity) => ({ message, severity, range }) as vscode.Diagnostic;
+
+        it('should offer one action per error or warning', () => {
+            const error = diagnostic("Cannot find name 'totl'.", vscode.DiagnosticSeverity.Error);
+            const actions = new GrokQuickFixProvider().provideCodeActions(document, range, {
+                diagnostics: [error, diagnostic('Prefer const.', vscode.DiagnosticSeverity.Information)]
+            } as unknown as vscode.CodeActionContext);
+            assert.strictEqual(actions.length, 1);
+            assert.strictEqual(actions[0].title, 'Fix with Grok');
+            assert.deepStrictEqual(actions[0].diagnostics, [error]);
+            assert.deepStrictEqual(actions[0].command?.arguments, [document.uri, error]);
+            assert.strictEqual(actions[0].command?.command, FIX_DIAGNOSTIC_COMMAND);
+        });
+
+        it('should name the problem when several share the range', () => {
+            const actions = new GrokQuickFixProvider().provideCodeActions(document, range, {
+                diagnostics: [diagnostic('First problem', vscode.DiagnosticSeverity.Error), diagnostic('Second problem', vscode.DiagnosticSeverity.Warning)]
+            } as unknown as vscode.CodeActionContext);
+            assert.deepStrictEqual(actions.map(action => action.title), ['Fix with Grok: First problem', 'Fix with Grok: Second problem']);
+        });
+    });
+});
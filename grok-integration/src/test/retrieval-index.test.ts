@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+
+import { buildChunks, MAX_INDEXED_FILE_CHARS, RetrievalIndex, tokenizeForIndex } from '../utils/retrievalIndex';
+
+describe('Retrieval Index Tests', () => {
+
+    describe('tokenizeForIndex', () => {
+        it('should keep identifiers whole and split camelCase and snake_case', () => {
+            const terms = tokenizeForIndex('getFilesList max_prompt_tokens');
+            assert.deepStrictEqual(terms, ['getfileslist', 'get', 'files', 'list', 'max_prompt_tokens', 'max', 'prompt', 'tokens']);
+        });
+
+        it('should split acronyms from the following word', () => {
+            assert.deepStrictEqual(tokenizeForIndex('parseHTMLResponse'), ['parsehtmlresponse', 'parse', 'html', 'response']);
+        });
+
+        it('should drop stop words, keywords and single characters', () => {
+            assert.deepStrictEqual(tokenizeForIndex('where is the const x cache'), ['cache']);
+        });
+    });
+
+    describe('buildChunks', () => {
+        it('should split content into line windows with path terms in each', () => {
+            const content = Array.from({ length: 130 }, (_, i) => `value${i}`).join('\n');
+            const chunks = buildChunks('src/tokenizer.ts', content, 60);
+            assert.deepStrictEqual(chunks.map(chunk => [chunk.startLine, chunk.endLine]), [[1, 60], [61, 120], [121, 130]]);
+            assert.ok(chunks.every(chunk => chunk.terms.tokenizer === 1));
+        });
+
+        it('should not confuse terms with Object.prototype members', () => {
+            const [chunk] = buildChunks('a.ts', 'constructor constructor');
+            assert.strictEqual(chunk.terms.constructor, 2);
+        });
+    });
+
+    describe('search', () => {
+        const createIndex = () => {
+            const index = new RetrievalIndex();
+            index.updateFile('src/cache.ts', 'export function getFromCache(key) {\n  return cache.get(key);\n}', 1, 62);
+            index.updateFile('src/tokenizer.ts', 'export function countTokens(text) {\n  return encoder.encode(text).length;\n}', 1, 75);
+            index.updateFile('README.md', 'Cache settings and token counting are described below.', 1, 54);
+            return index;
+        };
+
+        it('should rank files containing the query terms first', () => {
+            const results = createIndex().search('How are tokens counted?', 5);
+            assert.strictEqual(results[0].path, 'src/tokenizer.ts');
+            assert.ok(results[0].matchedTerms.includes('tokens'));
+            assert.deepStrictEqual(results[0].chunks.map(chunk => chunk.startLine), [1]);
+        });
+
+        it('should return nothing when no term matches', () => {
+            assert.deepStrictEqual(createIndex().search('kubernetes deployment', 5), []);
+        });
+
+        it('should respect the result limit', () => {
+            assert.strictEqual(createIndex().search('cache tokens', 1).length, 1);
+        });
+
+        it('should reflect file updates and removals', () => {
+            const index = createIndex();
+            index.updateFile('src/tokenizer.ts', 'export const unrelated = 1;', 2, 27);
+            assert.ok(!index.search('countTokens', 5).some(result => result.path === 'src/tokenizer.ts'));
+            assert.strictEqual(index.isCurrent('src/tokenizer.ts', 2, 27), true);
+            assert.strictEqual(index.isCurrent('src/tokenizer.ts', 2, 28), false);
+
+            assert.strictEqual(index.removeFile('src/cache.ts'), true);
+            assert.ok(!index.search('getFromCache', 5).some(result => result.path === 'src/cache.ts'));
+            assert.strictEqual(index.fileCount, 2);
+        });
+
+        it('should record oversized files without indexing them, so a sync can skip them', () => {
+            const index = createIndex();
+            const content = 'getFromCache '.repeat(Math.ceil(MAX_INDEXED_FILE_CHARS / 13) + 1);
+            index.updateFile('dist/bundle.js', content, 3, content.length);
+            assert.strictEqual(index.isCurrent('dist/bundle.js', 3, content.length), true);
+            assert.ok(index.paths().includes('dist/bundle.js'));
+            assert.ok(!index.search('getFromCache', 5).some(result => result.path === 'dist/bundle.js'));
+            assert.strictEqual(index.fileCount, 3);
+        });
+    });
+});
@@ -0,0 +1,100 @@
+import * as assert from 'assert';
+
+import { countMessageTokens, countTokens, estimateTokensHeuristic, getEncodingForModel } from '../utils/tokenizer';
+import { computeTokenBudget, DEFAULT_MAX_PROMPT_TOKENS, describeTokenBudget, getContextWindow, resolvePromptTokenLimit } from '../utils/models';
+
+describe('Tokenizer Tests', () => {
+
+    describe('getEncodingForModel', () => {
+        it('should map Grok model families to encodings', () => {
+            assert.strictEqual(getEncodingForModel('grok-code-fast-1'), 'o200k_base');
+            assert.strictEqual(getEncodingForModel('grok-4-0709'), 'o200k_base');
+            assert.strictEqual(getEncodingForModel('grok-2-1212'), 'cl100k_base');
+        });
+
+        it('should prefer the longest matching prefix', () => {
+            assert.strictEqual(getEncodingForModel('gpt-4o-mini'), 'o200k_base');
+            assert.strictEqual(getEncodingForModel('gpt-4-turbo'), 'cl100k_base');
+        });
+
+        it('should fall back to the default encoding for unknown models', () => {
+            assert.strictEqual(getEncodingForModel('some-local-model'), 'o200k_base');
+        });
+    });
+
+    describe('countTokens', () => {
+        it('should return 0 for empty text', () => {
+            assert.strictEqual(countTokens('', 'grok-4'), 0);
+        });
+
+        it('should count code with the model tokenizer', () => {
+            const code = 'function add(a: number, b: number): number { return a + b; }';
+            const tokens = countTokens(code, 'grok-4');
+            assert.ok(tokens > 10 && tokens < 40, `unexpected token count ${tokens}`);
+        });
+
+        it('should not throw on special token markers in user text', () => {
+            assert.ok(countTokens('before <|endoftext|> after', 'grok-4') > 0);
+        });
+    });
+
+    describe('countMessageTokens', () => {
+        it('should add per-message overhead', () => {
+            const content = countTokens('hello world', 'grok-4');
+            const total = countMessageTokens([{ role: 'user', content: 'hello world' }], 'grok-4');
+            assert.ok(total > content);
+        });
+
+        it('should omit reply priming when requested', () => {
+            const messages = [{ role: 'user', content: 'hello world' }];
+            assert.ok(countMessageTokens(messages, 'grok-4', 1.1, false) < countMessageTokens(messages, 'grok-4'));
+        });
+    });
+
+    describe('estimateTokensHeuristic', () => {
+        it('should scale with the multiplier', () => {
+            const text = 'one two three four five six seven eight nine ten';
+            assert.ok(estimateTokensHeuristic(text, 2) > estimateTokensHeuristic(text, 1));
+            assert.strictEqual(estimateTokensHeuristic('', 1.1), 0);
+        });
+    });
+
+    describe('Token Budget', () => {
+        it('should know the context window of Grok models', () => {
+            assert.strictEqual(getContextWindow('grok-3-mini'), 131072);
+            assert.strictEqual(getContextWindow('grok-4-0709'), 256000);
+            assert.strictEqual(getContextWindow('grok-4-fast-reasoning'), 2000000);
+        });
+
+        it('should reserve the response budget before the prompt budget', () => {
+            const budget = computeTokenBudget('grok-3', 131072, 9000, 0);
+            assert.strictEqual(budget.maxResponseTokens, 9000);
+            assert.strictEqual(budget.maxPromptTokens, 131072 - 9000);
+        });
+
+        it('should cap an explicit prompt budget at the space left in the window', () => {
+            assert.strictEqual(computeTokenBudget('m', 32000, 8000, 10000).maxPromptTokens, 10000);
+            assert.strictEqual(computeTokenBudget('m', 32000, 8000, 50000).maxPromptTokens, 24000);
+        });
+
+        it('should keep room for a prompt when the response budget exceeds the window', () => {
+            const budget = computeTokenBudget('m', 8192, 100000, 0);
+            assert.ok(budget.maxResponseTokens < 8192);
+            assert.ok(budget.maxPromptTokens >= 1);
+        });
+
+        it('should fall back to the maxTokens cap when no prompt budget is set', () => {
+            assert.strictEqual(resolvePromptTokenLimit(undefined, 4000), 4000);
+            assert.strictEqual(resolvePromptTokenLimit(undefined, undefined), DEFAULT_MAX_PROMPT_TOKENS);
+            assert.strictEqual(resolvePromptTokenLimit(20000, 4000), 20000);
+            assert.strictEqual(resolvePromptTokenLimit(0, 4000), 0);
+        });
+
+        it('should describe the prompt/response split', () => {
+            const text = describeTokenBudget(5000, computeTokenBudget('grok-3', 131072, 9000, 4000));
+            assert.ok(text.includes('4,000'));
+            assert.ok(text.includes('response 9,000 tokens'));
+            assert.ok(text.includes('(grok-3)'));
+        });
+    });
+});
@@ -1,6 +1,10 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
 
+import { computePreflightTotals, PreflightRequest } from '../utils/preflight';
+import { computeTokenBudget } from '../utils/models';
+import { buildReducePrompt, formatBatchFile, groupNotes, planBatches, splitOversizedFile } from '../utils/mapReduce';
+
 // Test workspace export functionality
 describe('Workspace Export Tests', () => {
     
@@ -89,4 +93,93 @@ describe('Workspace Export Tests', () => {
             assert.ok(true, 'Placeholder for cancellation tests');
         });
     });
+
+    describe('Pre-flight Totals', () => {
+        const request: PreflightRequest = {
+            title: 'Workspace Export',
+            files: [
+                { path: 'src/a.ts', tokens: 600 },
+                { path: 'src/b.ts', tokens: 300 },
+                { path: 'src/c.ts', tokens: 50 }
+            ],
+            overheadTokens: 100,
+            budget: computeTokenBudget('grok-4', 2000, 1000, 0),
+            price: { input: 3, output: 15 }
+        };
+
+        it('should add file tokens to the fixed overhead', () => {
+            const totals = computePreflightTotals(request, ['src/a.ts', 'src/c.ts']);
+            assert.strictEqual(totals.selectedFiles, 2);
+            assert.strictEqual(totals.promptTokens, 750);
+            assert.strictEqual(totals.fits, true);
+        });
+
+        it('should flag selections over the prompt budget', () => {
+            const totals = computePreflightTotals(request, ['src/a.ts', 'src/b.ts', 'src/c.ts']);
+            assert.strictEqual(totals.promptTokens, 1050);
+            assert.strictEqual(totals.fits, false);
+        });
+
+        it('should estimate input cost and the maximum output cost', () => {
+            const totals = computePreflightTotals(request, ['src/b.ts']);
+            assert.strictEqual(totals.inputCost, (400 * 3) / 1_000_000);
+            assert.strictEqual(totals.maxOutputCost, (1000 * 15) / 1_000_000);
+        });
+
+        it('should leave cost undefined for unpriced models', () => {
+            const totals = computePreflightTotals({ ...request, price: undefined }, ['src/b.ts']);
+            assert.strictEqual(totals.inputCost, undefined);
+        });
+
+        it('should ignore paths that were not offered', () => {
+            assert.strictEqual(computePreflightTotals(request, ['../secret.txt']).selectedFiles, 0);
+        });
+    });
+
+    describe('Chunked Mode', () => {
+        // One "token" per character keeps the arithmetic readable
+        const count = (text: string) => text.length;
+        const file = (path: string, size: number) => ({ path, content: 'x'.repeat(size) });
+
+        it('should keep files that fit in a single batch', () => {
+            const batches = planBatches([file('a.ts', 10), file('b.ts', 10)], 1000, count);
+            assert.strictEqual(batches.length, 1);
+            assert.deepStrictEqual(batches[0].files.map(f => f.path), ['a.ts', 'b.ts']);
+        });
+
+        it('should start a new batch when the budget is reached, preserving order', () => {
+            const files = [file('a.ts', 100), file('b.ts', 100), file('c.ts', 100)];
+            const perFile = count(formatBatchFile({ ...files[0], label: 'a.ts', tokens: 0 }));
+            const batches = planBatches(files, perFile * 2, count);
+            assert.deepStrictEqual(batches.map(batch => batch.files.map(f => f.path)), [['a.ts', 'b.ts'], ['c.ts']]);
+            batches.forEach(batch => assert.ok(batch.tokens <= perFile * 2));
+        });
+
+        it('should split an oversized file into labelled line ranges', () => {
+            const big = { path: 'big.ts', content: Array.from({ length: 40 }, (_, i) => `line ${i + 1}`).join('\n') };
+            const parts = splitOversizedFile(big, 200, count);
+            assert.ok(parts.length > 1);
+            assert.ok(parts.every(part => part.tokens <= 200));
+            assert.strictEqual(parts.map(part => part.content).join('\n'), big.content);
+            assert.ok(parts[0].label.startsWith(`big.ts (part 1/${parts.length}, lines 1-`));
+            assert.ok(parts[parts.length - 1].label.endsWith('-40)'));
+        });
+
+        it('should group notes so each reduce call stays within budget', () => {
+            const groups = groupNotes(['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(40)], 100, count);
+            assert.deepStrictEqual(groups.map(group => group.length), [2, 1]);
+        });
+
+        it('should give an oversized note its own group', () => {
+            const groups = groupNotes(['a'.repeat(500), 'b'], 100, count);
+            assert.deepStrictEqual(groups.map(group => group.length), [1, 1]);
+        });
+
+        it('should include every note and the instruction in the reduce prompt', () => {
+            const prompt = buildReducePrompt('find bugs', ['first', 'second'], true);
+            assert.ok(prompt.includes('"find bugs"'));
+            assert.ok(prompt.includes('--- NOTES 1 ---\nfirst'));
+            assert.ok(prompt.includes('--- NOTES 2 ---\nsecond'));
+        });
+    });
 });
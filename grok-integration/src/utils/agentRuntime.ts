@@ -0,0 +1,439 @@
+import OpenAI from 'openai';
+
+type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+export type AgentToolName = 'read_file' | 'list_files' | 'search_text' | 'propose_edit' | 'run_command';
+
+export interface ReadFileArgs {
+  path: string;
+  startLine?: number;
+  endLine?: number;
+}
+
+export interface ListFilesArgs {
+  pattern?: string;
+}
+
+export interface SearchTextArgs {
+  query: string;
+  isRegex: boolean;
+  maxResults: number;
+}
+
+/**
+ * An edit the model wants to make: SEARCH/REPLACE when `search` is given, otherwise
+ * `content` is the whole file (creating it if needed).
+ */
+export interface ProposeEditArgs {
+  path: string;
+  search?: string;
+  replace?: string;
+  content?: string;
+  explanation?: string;
+}
+
+export interface RunCommandArgs {
+  command: string;
+  explanation?: string;
+}
+
+export type AgentToolCall =
+  | { name: 'read_file'; args: ReadFileArgs }
+  | { name: 'list_files'; args: ListFilesArgs }
+  | { name: 'search_text'; args: SearchTextArgs }
+  | { name: 'propose_edit'; args: ProposeEditArgs }
+  | { name: 'run_command'; args: RunCommandArgs };
+
+// Implemented by the extension; results are plain text sent back to the model
+export interface AgentToolHost {
+  readFile(args: ReadFileArgs): Promise<string>;
+  listFiles(args: ListFilesArgs): Promise<string>;
+  searchText(args: SearchTextArgs): Promise<string>;
+  // Must ask the user before writing anything
+  proposeEdit(args: ProposeEditArgs): Promise<string>;
+  // Must ask the user before running anything
+  runCommand(args: RunCommandArgs): Promise<string>;
+}
+
+export interface AgentBudget {
+  // Model calls per run
+  maxSteps: number;
+  // Prompt plus completion tokens per run, as reported by the API
+  maxTokens: number;
+}
+
+export type AgentStopReason = 'answer' | 'max-steps' | 'max-tokens' | 'cancelled';
+
+export type AgentEvent =
+  | { type: 'step'; step: number; tokensUsed: number }
+  | { type: 'thought'; step: number; content: string }
+  | { type: 'tool'; step: number; call: AgentToolCall | undefined; name: string; summary: string; result: string; isError: boolean }
+  | { type: 'answer'; step: number; content: string };
+
+export interface AgentCompletionRequest {
+  messages: ChatMessage[];
+  tools: OpenAI.Chat.Completions.ChatCompletionTool[];
+  maxTokens: number;
+}
+
+export type AgentCompletionFn = (request: AgentCompletionRequest) => Promise<OpenAI.Chat.Completions.ChatCompletion>;
+
+export interface AgentRunOptions {
+  complete: AgentCompletionFn;
+  host: AgentToolHost;
+  // Conversation so far, ending with the user's task
+  messages: ChatMessage[];
+  budget: AgentBudget;
+  // Completion tokens allowed per step
+  maxResponseTokens: number;
+  isCancelled?: () => boolean;
+  onEvent?: (event: AgentEvent) => void;
+  // Used when the API reports no usage
+  countTokens?: (text: string) => number;
+}
+
+export interface AgentRunResult {
+  stopReason: AgentStopReason;
+  answer?: string;
+  // The full conversation including tool calls and results, for follow-up runs
+  messages: ChatMessage[];
+  steps: number;
+  tokensUsed: number;
+}
+
+// Tool output beyond this is cut, so one large file cannot use up the token budget
+export const MAX_TOOL_RESULT_CHARS = 20000;
+export const MAX_SEARCH_RESULTS = 100;
+export const MAX_LISTED_FILES = 500;
+
+export const AGENT_SYSTEM_PROMPT = 'You are a careful AI programming agent working inside the user\'s VS Code workspace. ' +
+  'Use the tools to look at the code before you answer or change it: list_files and search_text to find what matters, read_file to read it. ' +
+  'Make changes only with propose_edit; the user reviews every edit and may reject it, so check the tool result before continuing. ' +
+  'Use run_command to run tests, builds or linters when that helps verify a change; the user approves each command, and only some commands are allowed. ' +
+  'Paths are relative to the workspace root. Prefer small SEARCH/REPLACE edits over rewriting whole files. ' +
+  'Focus on security and correctness, with no jokes or filler. When you are done, reply without calling a tool and summarize what you found or changed.';
+
+export const AGENT_TOOLS: OpenAI.Chat.Completions.ChatCompletionTool[] = [
+  {
+    type: 'function',
+    function: {
+      name: 'read_file',
+      description: 'Read a workspace file, optionally only a line range. Lines are prefixed with their 1-based number.',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'Workspace-relative path' },
+          start_line: { type: 'integer', description: 'First line to read (1-based)' },
+          end_line: { type: 'integer', description: 'Last line to read (inclusive)' }
+        },
+        required: ['path']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'list_files',
+      description: 'List the files in the workspace (tracked by git, without build output or binaries).',
+      parameters: {
+        type: 'object',
+        properties: {
+          pattern: { type: 'string', description: 'Optional glob such as "src/**/*.ts", or a substring of the path' }
+        }
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'search_text',
+      description: 'Search workspace files line by line and return matching lines with their path and line number.',
+      parameters: {
+        type: 'object',
+        properties: {
+          query: { type: 'string', description: 'Text to find (case-insensitive), or a regular expression when is_regex is true' },
+          is_regex: { type: 'boolean' },
+          max_results: { type: 'integer', description: `At most ${MAX_SEARCH_RESULTS}` }
+        },
+        required: ['query']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'propose_edit',
+      description: 'Propose a change to one file. Give search and replace to replace exact existing lines (search must match one place only), ' +
+        'or content to create the file or replace all of it. The user reviews the change before it is written.',
+      parameters: {
+        type: 'object',
+        properties: {
+          path: { type: 'string', description: 'Workspace-relative path' },
+          search: { type: 'string', description: 'Exact lines currently in the file, including indentation' },
+          replace: { type: 'string', description: 'Lines that replace the search lines' },
+          content: { type: 'string', description: 'Complete new file content, instead of search/replace' },
+          explanation: { type: 'string', description: 'One sentence on why, shown to the user' }
+        },
+        required: ['path']
+      }
+    }
+  },
+  {
+    type: 'function',
+    function: {
+      name: 'run_command',
+      description: 'Run a shell command in the workspace root, such as the test suite or a build, and get its exit code and output. ' +
+        'The user approves every command; commands outside the configured allow list are refused.',
+      parameters: {
+        type: 'object',
+        properties: {
+          command: { type: 'string', description: 'The command line, e.g. "npm test"' },
+          explanation: { type: 'string', description: 'One sentence on why, shown to the user' }
+        },
+        required: ['command']
+      }
+    }
+  }
+];
+
+function optionalInteger(value: unknown, name: string): number | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    throw new Error(`${name} must be a positive integer`);
+  }
+  return value;
+}
+
+function optionalString(value: unknown, name: string): string | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new Error(`${name} must be a string`);
+  }
+  return value;
+}
+
+function requiredString(value: unknown, name: string): string {
+  const text = optionalString(value, name);
+  if (!text || text.trim() === '') {
+    throw new Error(`${name} is required`);
+  }
+  return text;
+}
+
+// Validate a tool call from the model; the error message is sent back so it can correct itself
+export function parseToolCall(name: string, rawArguments: string): AgentToolCall {
+  let args: Record<string, unknown>;
+  try {
+    args = rawArguments.trim() === '' ? {} : JSON.parse(rawArguments);
+  } catch {
+    throw new Error('arguments are not valid JSON');
+  }
+  if (!args || typeof args !== 'object' || Array.isArray(args)) {
+    throw new Error('arguments must be a JSON object');
+  }
+
+  switch (name) {
+    case 'read_file': {
+      const startLine = optionalInteger(args.start_line, 'start_line');
+      const endLine = optionalInteger(args.end_line, 'end_line');
+      if (startLine !== undefined && endLine !== undefined && endLine < startLine) {
+        throw new Error('end_line must not be before start_line');
+      }
+      return { name, args: { path: requiredString(args.path, 'path'), startLine, endLine } };
+    }
+    case 'list_files':
+      return { name, args: { pattern: optionalString(args.pattern, 'pattern') } };
+    case 'search_text': {
+      const maxResults = optionalInteger(args.max_results, 'max_results') ?? MAX_SEARCH_RESULTS;
+      if (args.is_regex !== undefined && typeof args.is_regex !== 'boolean') {
+        throw new Error('is_regex must be a boolean');
+      }
+      return { name, args: { query: requiredString(args.query, 'query'), isRegex: args.is_regex === true, maxResults: Math.min(maxResults, MAX_SEARCH_RESULTS) } };
+    }
+    case 'propose_edit': {
+      const search = optionalString(args.search, 'search');
+      const replace = optionalString(args.replace, 'replace');
+      const content = optionalString(args.content, 'content');
+      if ((search === undefined) === (content === undefined)) {
+        throw new Error('give either search and replace, or content');
+      }
+      if (search !== undefined && replace === undefined) {
+        throw new Error('replace is required with search');
+      }
+      return { name, args: { path: requiredString(args.path, 'path'), search, replace, content, explanation: optionalString(args.explanation, 'explanation') } };
+    }
+    case 'run_command':
+      return { name, args: { command: requiredString(args.command, 'command'), explanation: optionalString(args.explanation, 'explanation') } };
+    default:
+      throw new Error(`unknown tool "${name}"`);
+  }
+}
+
+// One-line description of a tool call for the panel
+export function describeToolCall(call: AgentToolCall): string {
+  switch (call.name) {
+    case 'read_file':
+      return `read_file ${call.args.path}${call.args.startLine ? `:${call.args.startLine}-${call.args.endLine ?? ''}` : ''}`;
+    case 'list_files':
+      return `list_files${call.args.pattern ? ` ${call.args.pattern}` : ''}`;
+    case 'search_text':
+      return `search_text ${call.args.isRegex ? '/' + call.args.query + '/' : JSON.stringify(call.args.query)}`;
+    case 'propose_edit':
+      return `propose_edit ${call.args.path}${call.args.explanation ? ` - ${call.args.explanation}` : ''}`;
+    case 'run_command':
+      return `run_command ${call.args.command}`;
+  }
+}
+
+export function truncateToolResult(result: string, limit = MAX_TOOL_RESULT_CHARS): string {
+  return result.length > limit
+    ? `${result.slice(0, limit)}\n… [truncated ${result.length - limit} characters; read a narrower line range]`
+    : result;
+}
+
+// Glob with * (within a folder), ** (across folders) and ?; without wildcards, a case-insensitive substring
+export function matchesPathPattern(filePath: string, pattern: string): boolean {
+  if (!/[*?]/.test(pattern)) {
+    return filePath.toLowerCase().includes(pattern.toLowerCase());
+  }
+  let regex = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      // "**/" also matches no folder at all
+      regex += pattern[i + 2] === '/' ? '(?:.*/)?' : '.*';
+      i += pattern[i + 2] === '/' ? 2 : 1;
+    } else if (char === '*') {
+      regex += '[^/]*';
+    } else if (char === '?') {
+      regex += '[^/]';
+    } else {
+      regex += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${regex}$`, 'i').test(filePath);
+}
+
+// Line matcher for search_text; plain queries match case-insensitively
+export function createTextMatcher(query: string, isRegex: boolean): (line: string) => boolean {
+  if (isRegex) {
+    let regex: RegExp;
+    try {
+      regex = new RegExp(query, 'i');
+    } catch (error) {
+      throw new Error(`invalid regular expression: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return line => regex.test(line);
+  }
+  const needle = query.toLowerCase();
+  return line => line.toLowerCase().includes(needle);
+}
+
+// Number lines the way read_file returns them, so the model can cite and anchor edits
+export function numberLines(content: string, startLine = 1, endLine?: number): string {
+  const lines = content.split(/\r?\n/);
+  const first = Math.max(1, startLine);
+  const last = Math.min(lines.length, endLine ?? lines.length);
+  const width = String(last).length;
+  return lines.slice(first - 1, last).map((line, index) => `${String(first + index).padStart(width)}| ${line}`).join('\n');
+}
+
+async function runTool(host: AgentToolHost, call: AgentToolCall): Promise<string> {
+  switch (call.name) {
+    case 'read_file':
+      return host.readFile(call.args);
+    case 'list_files':
+      return host.listFiles(call.args);
+    case 'search_text':
+      return host.searchText(call.args);
+    case 'propose_edit':
+      return host.proposeEdit(call.args);
+    case 'run_command':
+      return host.runCommand(call.args);
+  }
+}
+
+/**
+ * Run the tool-calling loop: ask the model, run the tools it calls, send back the
+ * results, and repeat until it answers without a tool call or a budget runs out. Tool
+ * errors are returned to the model as results rather than ending the run.
+ */
+export async function runAgent(options: AgentRunOptions): Promise<AgentRunResult> {
+  const { budget, host, onEvent } = options;
+  const countTokens = options.countTokens ?? ((text: string) => Math.ceil(text.length / 4));
+  const messages = [...options.messages];
+  let steps = 0;
+  let tokensUsed = 0;
+  const result = (stopReason: AgentStopReason, answer?: string): AgentRunResult => ({ stopReason, answer, messages, steps, tokensUsed });
+
+  while (true) {
+    if (options.isCancelled?.()) {
+      return result('cancelled');
+    }
+    if (steps >= budget.maxSteps) {
+      return result('max-steps');
+    }
+    const remaining = budget.maxTokens - tokensUsed;
+    if (remaining <= 0) {
+      return result('max-tokens');
+    }
+
+    steps++;
+    onEvent?.({ type: 'step', step: steps, tokensUsed });
+    const completion = await options.complete({
+      messages,
+      tools: AGENT_TOOLS,
+      maxTokens: Math.max(1, Math.min(options.maxResponseTokens, remaining))
+    });
+    const message = completion.choices[0]?.message;
+    if (!message) {
+      throw new Error('The model returned no message');
+    }
+    tokensUsed += completion.usage?.total_tokens ??
+      countTokens(messages.map(entry => typeof entry.content === 'string' ? entry.content : JSON.stringify(entry.content ?? '')).join('\n')) +
+      countTokens((message.content || '') + JSON.stringify(message.tool_calls ?? []));
+
+    const toolCalls = (message.tool_calls || []).filter(call => call.type === 'function');
+    messages.push({
+      role: 'assistant',
+      content: message.content ?? null,
+      ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {})
+    });
+
+    if (toolCalls.length === 0) {
+      const answer = message.content || '';
+      onEvent?.({ type: 'answer', step: steps, content: answer });
+      return result('answer', answer);
+    }
+    if (message.content && message.content.trim() !== '') {
+      onEvent?.({ type: 'thought', step: steps, content: message.content });
+    }
+
+    for (const toolCall of toolCalls) {
+      let call: AgentToolCall | undefined;
+      let output: string;
+      let isError = false;
+      try {
+        call = parseToolCall(toolCall.function.name, toolCall.function.arguments);
+        output = options.isCancelled?.() ? 'Error: the run was cancelled' : truncateToolResult(await runTool(host, call));
+      } catch (error) {
+        isError = true;
+        output = `Error: ${error instanceof Error ? error.message : String(error)}`;
+      }
+      messages.push({ role: 'tool', tool_call_id: toolCall.id, content: output });
+      onEvent?.({
+        type: 'tool',
+        step: steps,
+        call,
+        name: toolCall.function.name,
+        summary: call ? describeToolCall(call) : toolCall.function.name,
+        result: output,
+        isError
+      });
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { readJsonFile } from './jsonFile';
+
+export interface FileSnapshot {
+  // Workspace-relative path, for messages
+  file: string;
+  uri: string;
+  // False when the apply created the file; reverting deletes it
+  existed: boolean;
+  // Content before the apply (empty for created files)
+  content: string;
+  // Hash of the content the apply wrote, to detect edits made afterwards
+  appliedHash: string;
+  // True when the apply deleted the file or renamed it away; reverting recreates it
+  removed?: boolean;
+}
+
+export interface ApplySnapshot {
+  timestamp: number;
+  files: FileSnapshot[];
+}
+
+const SNAPSHOT_FILE_VERSION = 1;
+const SNAPSHOT_FILE_NAME = 'last-apply-snapshot.json';
+
+export function hashContent(content: string): string {
+  return crypto.createHash('sha256').update(content, 'utf8').digest('hex');
+}
+
+function isValidSnapshot(value: unknown): value is ApplySnapshot {
+  const snapshot = value as ApplySnapshot;
+  return !!snapshot && typeof snapshot.timestamp === 'number' && Array.isArray(snapshot.files) &&
+    snapshot.files.every(file => !!file && typeof file.file === 'string' && typeof file.uri === 'string' &&
+      typeof file.existed === 'boolean' && typeof file.content === 'string' && typeof file.appliedHash === 'string' &&
+      (file.removed === undefined || typeof file.removed === 'boolean'));
+}
+
+/**
+ * Keeps the before-state of the most recent Apply Changes so it can be rolled back, even
+ * after a restart. Stored in workspace storage when available (in memory otherwise);
+ * written before the edit is applied so a failure halfway can always be undone.
+ */
+export class ApplySnapshotStore {
+  private latest: ApplySnapshot | undefined;
+  private loaded = false;
+
+  constructor(private readonly storageDir?: string) { }
+
+  get filePath(): string | undefined {
+    return this.storageDir ? path.join(this.storageDir, SNAPSHOT_FILE_NAME) : undefined;
+  }
+
+  async save(snapshot: ApplySnapshot): Promise<void> {
+    this.latest = snapshot;
+    this.loaded = true;
+    const filePath = this.filePath;
+    if (!filePath || !this.storageDir) {
+      return;
+    }
+    // Write atomically (temp file + rename), like the persistent response cache
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    try {
+      await fs.promises.mkdir(this.storageDir, { recursive: true });
+      await fs.promises.writeFile(tempPath, JSON.stringify({ version: SNAPSHOT_FILE_VERSION, snapshot }), { encoding: 'utf8', mode: 0o600 });
+      await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+      await fs.promises.unlink(tempPath).catch(() => undefined);
+      throw error;
+    }
+  }
+
+  async getLatest(): Promise<ApplySnapshot | undefined> {
+    if (this.loaded) {
+      return this.latest;
+    }
+    this.loaded = true;
+    const filePath = this.filePath;
+    if (!filePath) {
+      return undefined;
+    }
+    try {
+      const parsed = await readJsonFile(filePath) as { version?: unknown; snapshot?: unknown } | undefined;
+      if (parsed?.version === SNAPSHOT_FILE_VERSION && isValidSnapshot(parsed.snapshot)) {
+        this.latest = parsed.snapshot;
+      }
+    } catch (error) {
+      console.warn(`Apply snapshot unreadable: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    return this.latest;
+  }
+
+  async clear(): Promise<void> {
+    this.latest = undefined;
+    this.loaded = true;
+    const filePath = this.filePath;
+    if (filePath) {
+      await fs.promises.unlink(filePath).catch(() => undefined);
+    }
+  }
+}
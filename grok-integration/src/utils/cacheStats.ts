@@ -0,0 +1,167 @@
+import * as vscode from 'vscode';
+
+export const CACHE_STATS_KEY = 'grokCacheStats';
+const SAVE_DELAY_MS = 5000;
+
+export interface CacheStatsSnapshot {
+  hits: number;
+  misses: number;
+  expirations: number;
+  evictions: number;
+  // Tokens that would have been sent and received had the hits gone to the API
+  promptTokensSaved: number;
+  responseTokensSaved: number;
+  // Estimated USD avoided; hits on models without a known price are counted in unpricedHits
+  costSaved: number;
+  unpricedHits: number;
+  since: number;
+}
+
+export interface CacheReportDetails {
+  enabled: boolean;
+  entries: number;
+  maxEntries: number;
+  ttlMinutes: number;
+  // Undefined when the on-disk tier is disabled
+  diskEntries?: number;
+  entriesPerModel: Map<string, number>;
+}
+
+function emptyStats(now = Date.now()): CacheStatsSnapshot {
+  return {
+    hits: 0,
+    misses: 0,
+    expirations: 0,
+    evictions: 0,
+    promptTokensSaved: 0,
+    responseTokensSaved: 0,
+    costSaved: 0,
+    unpricedHits: 0,
+    since: now
+  };
+}
+
+/**
+ * Counts cache outcomes for the current workspace. Counters live in workspace state
+ * so they survive restarts; writes are debounced because hits can arrive in bursts.
+ */
+export class CacheStatsTracker {
+  private stats: CacheStatsSnapshot;
+  private saveTimer: NodeJS.Timeout | undefined;
+
+  constructor(private readonly state: vscode.Memento) {
+    const stored = state.get<Partial<CacheStatsSnapshot>>(CACHE_STATS_KEY);
+    const stats = emptyStats();
+    if (stored && typeof stored === 'object') {
+      for (const key of Object.keys(stats) as Array<keyof CacheStatsSnapshot>) {
+        const value = stored[key];
+        if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+          stats[key] = value;
+        }
+      }
+    }
+    this.stats = stats;
+  }
+
+  get snapshot(): CacheStatsSnapshot {
+    return { ...this.stats };
+  }
+
+  recordHit(promptTokens: number, responseTokens: number, cost: number | undefined): void {
+    this.stats.hits++;
+    this.stats.promptTokensSaved += promptTokens;
+    this.stats.responseTokensSaved += responseTokens;
+    if (cost === undefined) {
+      this.stats.unpricedHits++;
+    } else {
+      this.stats.costSaved += cost;
+    }
+    this.scheduleSave();
+  }
+
+  recordMiss(): void {
+    this.stats.misses++;
+    this.scheduleSave();
+  }
+
+  recordExpiration(count = 1): void {
+    this.stats.expirations += count;
+    this.scheduleSave();
+  }
+
+  recordEviction(count = 1): void {
+    this.stats.evictions += count;
+    this.scheduleSave();
+  }
+
+  async reset(): Promise<void> {
+    this.stats = emptyStats();
+    await this.flush(true);
+  }
+
+  async flush(force = false): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    } else if (!force) {
+      return;
+    }
+    await this.state.update(CACHE_STATS_KEY, this.stats);
+  }
+
+  private scheduleSave(): void {
+    if (this.saveTimer) {
+      return;
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      void this.state.update(CACHE_STATS_KEY, this.stats);
+    }, SAVE_DELAY_MS);
+  }
+}
+
+export function cacheHitRate(stats: CacheStatsSnapshot): number {
+  const lookups = stats.hits + stats.misses;
+  return lookups === 0 ? 0 : stats.hits / lookups;
+}
+
+export function formatCacheStatsReport(stats: CacheStatsSnapshot, details: CacheReportDetails): string {
+  const lines = [
+    '# Grok Cache Statistics',
+    '',
+    `Tracking since ${new Date(stats.since).toLocaleString()} for this workspace.`,
+    '',
+    '## Effectiveness',
+    '',
+    '| Metric | Value |',
+    '| --- | --- |',
+    `| Hits | ${stats.hits} |`,
+    `| Misses | ${stats.misses} |`,
+    `| Hit rate | ${(cacheHitRate(stats) * 100).toFixed(1)}% |`,
+    `| Expirations | ${stats.expirations} |`,
+    `| Evictions | ${stats.evictions} |`,
+    `| Prompt tokens saved | ${stats.promptTokensSaved.toLocaleString()} |`,
+    `| Response tokens saved | ${stats.responseTokensSaved.toLocaleString()} |`,
+    `| Estimated cost saved | $${stats.costSaved.toFixed(4)} |`
+  ];
+  if (stats.unpricedHits > 0) {
+    lines.push('', `${stats.unpricedHits} hit(s) used a model without a known price and are not included in the cost estimate; add it to \`grokIntegration.modelPricing\`.`);
+  }
+
+  lines.push(
+    '',
+    '## Current Cache',
+    '',
+    `- **Enabled:** ${details.enabled}`,
+    `- **In memory:** ${details.entries}/${details.maxEntries} entries`,
+    `- **On disk:** ${details.diskEntries === undefined ? 'disabled' : `${details.diskEntries} entries`}`,
+    `- **TTL:** ${details.ttlMinutes} minutes`
+  );
+  if (details.entriesPerModel.size > 0) {
+    lines.push('', '### Entries per Model', '');
+    for (const [model, count] of details.entriesPerModel) {
+      lines.push(`- ${model}: ${count}`);
+    }
+  }
+  return lines.join('\n');
+}
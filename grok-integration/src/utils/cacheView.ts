@@ -0,0 +1,109 @@
+import * as vscode from 'vscode';
+
+export const CACHE_VIEW_ID = 'grokCacheEntries';
+
+export interface CacheViewEntry {
+  key: string;
+  action: string;
+  language: string;
+  model: string;
+  timestamp: number;
+  tokenCount: number;
+  response: string;
+  // 'memory' entries may also exist on disk; 'disk' entries were not loaded this session
+  tier: 'memory' | 'disk';
+  // The request source is held in memory only, so entries restored from disk cannot be re-run
+  canRerun: boolean;
+}
+
+const PREVIEW_LENGTH = 160;
+
+export function formatAge(ms: number): string {
+  const minutes = Math.floor(Math.max(0, ms) / 60000);
+  if (minutes < 1) {
+    return 'just now';
+  }
+  if (minutes < 60) {
+    return `${minutes}m ago`;
+  }
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) {
+    return `${hours}h ago`;
+  }
+  return `${Math.floor(hours / 24)}d ago`;
+}
+
+// First meaningful line of the response with Markdown markers stripped
+export function previewResponse(response: string, length = PREVIEW_LENGTH): string {
+  const text = response
+    .replace(/```[\s\S]*?(```|$)/g, ' ')
+    .replace(/[#>*_`|-]+/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return text.length > length ? `${text.substring(0, length - 1)}…` : text;
+}
+
+export function cacheEntryToMarkdown(entry: CacheViewEntry, now = Date.now()): string {
+  return [
+    `# Grok: ${entry.action}`,
+    '',
+    `- **Language:** ${entry.language}`,
+    `- **Model:** ${entry.model}`,
+    `- **Cached:** ${new Date(entry.timestamp).toISOString()} (${formatAge(now - entry.timestamp)})`,
+    `- **Prompt tokens:** ${entry.tokenCount}`,
+    '',
+    '---',
+    '',
+    entry.response
+  ].join('\n');
+}
+
+export class CacheTreeItem extends vscode.TreeItem {
+  constructor(public readonly entry: CacheViewEntry) {
+    super(`${entry.action} · ${entry.language}`, vscode.TreeItemCollapsibleState.None);
+    this.id = entry.key;
+    this.description = `${entry.model} · ${formatAge(Date.now() - entry.timestamp)} · ${entry.tokenCount} tokens`;
+    this.tooltip = new vscode.MarkdownString(
+      `**${entry.action}** (${entry.language}, ${entry.model})\n\n${previewResponse(entry.response)}`
+    );
+    this.iconPath = new vscode.ThemeIcon(entry.tier === 'memory' ? 'database' : 'archive');
+    this.contextValue = entry.canRerun ? 'grokCacheEntry.replayable' : 'grokCacheEntry';
+    this.command = {
+      command: 'grok-integration.openCacheEntry',
+      title: 'Open Response',
+      arguments: [this]
+    };
+  }
+}
+
+/**
+ * Lists cached responses, newest first. The provider does not own the cache;
+ * it reads a snapshot from `getEntries` whenever it is refreshed.
+ */
+export class CacheTreeProvider implements vscode.TreeDataProvider<CacheTreeItem> {
+  private readonly changeEmitter = new vscode.EventEmitter<void>();
+  readonly onDidChangeTreeData = this.changeEmitter.event;
+
+  constructor(private readonly getEntries: () => CacheViewEntry[]) { }
+
+  refresh(): void {
+    this.changeEmitter.fire();
+  }
+
+  getTreeItem(element: CacheTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  getChildren(element?: CacheTreeItem): CacheTreeItem[] {
+    if (element) {
+      return [];
+    }
+    return this.getEntries()
+      .sort((a, b) => b.timestamp - a.timestamp)
+      .map(entry => new CacheTreeItem(entry));
+  }
+
+  dispose(): void {
+    this.changeEmitter.dispose();
+  }
+}
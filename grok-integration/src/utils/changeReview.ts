@@ -0,0 +1,330 @@
+import * as vscode from 'vscode';
+import { ApplyResult, applyUnifiedDiff, DiffHunk } from './codeChanges';
+
+export const PROPOSED_CHANGES_SCHEME = 'grok-proposed';
+
+export interface ProposedFileChange {
+  // Workspace-relative path as written by Grok
+  file: string;
+  uri: vscode.Uri;
+  original: string;
+  proposed: string;
+  // False when the change creates the file
+  exists: boolean;
+}
+
+export interface ReviewHunk {
+  index: number;
+  // 0-based first line of the hunk in the original and proposed text
+  originalStart: number;
+  proposedStart: number;
+  originalLines: string[];
+  proposedLines: string[];
+}
+
+// Beyond this many line comparisons the changed region is treated as a single hunk
+const MAX_DIFF_CELLS = 4_000_000;
+// Changes separated by this many unchanged lines or fewer are reviewed as one hunk
+const HUNK_MERGE_GAP = 2;
+
+function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split(/\r?\n/);
+}
+
+function detectEol(...texts: string[]): string {
+  return texts.find(text => text.length > 0)?.includes('\r\n') ? '\r\n' : '\n';
+}
+
+/**
+ * Line diff between the current file and Grok's proposal, grouped into hunks that can be
+ * accepted or rejected on their own. Common leading and trailing lines are skipped before
+ * the LCS so typical edits to large files stay cheap.
+ */
+export function computeReviewHunks(original: string, proposed: string): ReviewHunk[] {
+  const a = splitLines(original);
+  const b = splitLines(proposed);
+  let prefix = 0;
+  while (prefix < a.length && prefix < b.length && a[prefix] === b[prefix]) {
+    prefix++;
+  }
+  let suffix = 0;
+  while (suffix < a.length - prefix && suffix < b.length - prefix && a[a.length - 1 - suffix] === b[b.length - 1 - suffix]) {
+    suffix++;
+  }
+  const midA = a.slice(prefix, a.length - suffix);
+  const midB = b.slice(prefix, b.length - suffix);
+  if (midA.length === 0 && midB.length === 0) {
+    return [];
+  }
+
+  // Matched line pairs (index in midA, index in midB), in order
+  const matches: Array<[number, number]> = [];
+  if ((midA.length + 1) * (midB.length + 1) <= MAX_DIFF_CELLS) {
+    const width = midB.length + 1;
+    const lcs = new Uint32Array((midA.length + 1) * width);
+    for (let i = midA.length - 1; i >= 0; i--) {
+      for (let j = midB.length - 1; j >= 0; j--) {
+        lcs[i * width + j] = midA[i] === midB[j]
+          ? lcs[(i + 1) * width + j + 1] + 1
+          : Math.max(lcs[(i + 1) * width + j], lcs[i * width + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < midA.length && j < midB.length) {
+      if (midA[i] === midB[j]) {
+        matches.push([i, j]);
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * width + j] >= lcs[i * width + j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+  }
+  matches.push([midA.length, midB.length]);
+
+  // Turn the gaps between matched lines into hunks, merging ones that are close together
+  const hunks: ReviewHunk[] = [];
+  let lastA = 0;
+  let lastB = 0;
+  for (const [matchA, matchB] of matches) {
+    if (matchA > lastA || matchB > lastB) {
+      const previous = hunks[hunks.length - 1];
+      const gap = previous ? prefix + lastA - (previous.originalStart + previous.originalLines.length) : Infinity;
+      if (previous && gap <= HUNK_MERGE_GAP) {
+        previous.originalLines = a.slice(previous.originalStart, prefix + matchA);
+        previous.proposedLines = b.slice(previous.proposedStart, prefix + matchB);
+      } else {
+        hunks.push({
+          index: hunks.length,
+          originalStart: prefix + lastA,
+          proposedStart: prefix + lastB,
+          originalLines: midA.slice(lastA, matchA),
+          proposedLines: midB.slice(lastB, matchB)
+        });
+      }
+    }
+    lastA = matchA + 1;
+    lastB = matchB + 1;
+  }
+  return hunks;
+}
+
+// Rebuild the file with only the accepted hunks applied
+export function applyReviewHunks(original: string, hunks: ReviewHunk[], accepted: ReadonlySet<number>): string {
+  const lines = splitLines(original);
+  const result: string[] = [];
+  let position = 0;
+  for (const hunk of hunks) {
+    result.push(...lines.slice(position, hunk.originalStart));
+    result.push(...(accepted.has(hunk.index) ? hunk.proposedLines : hunk.originalLines));
+    position = hunk.originalStart + hunk.originalLines.length;
+  }
+  result.push(...lines.slice(position));
+  return result.join(detectEol(original, ...hunks.map(hunk => hunk.proposedLines.join('\n'))));
+}
+
+// Unchanged lines kept around each hunk when it is moved onto edited content
+const REBASE_CONTEXT_LINES = 3;
+
+/**
+ * Move edits computed against `base` (the file as Grok saw it) onto `current` (the file
+ * as it is now). Each change becomes a diff hunk with a few lines of context and is
+ * re-anchored by content, so edits survive unrelated changes elsewhere in the file;
+ * hunks whose surroundings were edited are reported as not applied.
+ */
+export function rebaseChanges(base: string, proposed: string, current: string): ApplyResult {
+  const baseLines = splitLines(base);
+  const hunks: DiffHunk[] = computeReviewHunks(base, proposed).map(hunk => {
+    const before = baseLines.slice(Math.max(0, hunk.originalStart - REBASE_CONTEXT_LINES), hunk.originalStart);
+    const afterStart = hunk.originalStart + hunk.originalLines.length;
+    const after = baseLines.slice(afterStart, afterStart + REBASE_CONTEXT_LINES);
+    const oldStart = hunk.originalStart - before.length + 1;
+    const oldLines = before.length + hunk.originalLines.length + after.length;
+    const newLines = before.length + hunk.proposedLines.length + after.length;
+    return {
+      header: `@@ -${oldStart},${oldLines} +${hunk.proposedStart - before.length + 1},${newLines} @@`,
+      // Pure insertions into an empty region have no old lines; the header then names the line to insert after
+      oldStart: oldLines === 0 ? hunk.originalStart : oldStart,
+      oldLines,
+      newStart: hunk.proposedStart - before.length + 1,
+      newLines,
+      lines: [
+        ...before.map(line => ` ${line}`),
+        ...hunk.originalLines.map(line => `-${line}`),
+        ...hunk.proposedLines.map(line => `+${line}`),
+        ...after.map(line => ` ${line}`)
+      ]
+    };
+  });
+  return applyUnifiedDiff(current, hunks);
+}
+
+/**
+ * Serves proposed file contents under the grok-proposed scheme so they can be shown in
+ * VS Code's diff editor without touching the workspace.
+ */
+export class ProposedContentProvider implements vscode.TextDocumentContentProvider, vscode.Disposable {
+  private readonly contents = new Map<string, string>();
+  private readonly changeEmitter = new vscode.EventEmitter<vscode.Uri>();
+  private reviewCount = 0;
+  readonly onDidChange = this.changeEmitter.event;
+
+  // A fresh review id keeps URIs from an earlier review from showing newer content
+  nextReviewId(): string {
+    return String(++this.reviewCount);
+  }
+
+  set(file: string, reviewId: string, side: 'original' | 'proposed', content: string): vscode.Uri {
+    const uri = vscode.Uri.from({ scheme: PROPOSED_CHANGES_SCHEME, path: `/${file}`, query: `${reviewId}-${side}` });
+    this.contents.set(uri.toString(), content);
+    this.changeEmitter.fire(uri);
+    return uri;
+  }
+
+  clear(reviewId: string): void {
+    for (const key of Array.from(this.contents.keys())) {
+      if (vscode.Uri.parse(key).query.startsWith(`${reviewId}-`)) {
+        this.contents.delete(key);
+      }
+    }
+  }
+
+  provideTextDocumentContent(uri: vscode.Uri): string {
+    return this.contents.get(uri.toString()) ?? '';
+  }
+
+  dispose(): void {
+    this.contents.clear();
+    this.changeEmitter.dispose();
+  }
+}
+
+interface ReviewItem extends vscode.QuickPickItem {
+  fileIndex: number;
+  hunk?: ReviewHunk;
+}
+
+const DIFF_BUTTON: vscode.QuickInputButton = { iconPath: new vscode.ThemeIcon('diff'), tooltip: 'Open diff' };
+
+function summarizeHunk(hunk: ReviewHunk): string {
+  const changed = hunk.proposedLines.find(line => line.trim() !== '') ?? hunk.originalLines.find(line => line.trim() !== '') ?? '';
+  return changed.trim().slice(0, 120);
+}
+
+/**
+ * Let the user review proposed changes in the diff editor and accept or reject them per
+ * file or per hunk. Resolves with the final content of every file that has at least one
+ * accepted hunk, keyed by URI string, or undefined if the review was dismissed.
+ */
+export async function reviewProposedChanges(files: ProposedFileChange[], provider: ProposedContentProvider): Promise<Map<string, string> | undefined> {
+  const reviewId = provider.nextReviewId();
+  const fileHunks = files.map(file => computeReviewHunks(file.original, file.proposed));
+  const diffUris = files.map(file => ({
+    left: file.exists ? file.uri : provider.set(file.file, reviewId, 'original', ''),
+    right: provider.set(file.file, reviewId, 'proposed', file.proposed)
+  }));
+
+  const openDiff = (fileIndex: number, hunk?: ReviewHunk) => {
+    const file = files[fileIndex];
+    const line = hunk ? hunk.proposedStart : fileHunks[fileIndex][0]?.proposedStart ?? 0;
+    return vscode.commands.executeCommand('vscode.diff', diffUris[fileIndex].left, diffUris[fileIndex].right,
+      `${file.file} ↔ Grok proposal${file.exists ? '' : ' (new file)'}`,
+      { preview: true, preserveFocus: true, selection: new vscode.Range(line, 0, line, 0) });
+  };
+
+  const items: ReviewItem[] = [];
+  files.forEach((file, fileIndex) => {
+    const hunks = fileHunks[fileIndex];
+    const added = hunks.reduce((sum, hunk) => sum + hunk.proposedLines.length, 0);
+    const removed = hunks.reduce((sum, hunk) => sum + hunk.originalLines.length, 0);
+    items.push({
+      label: `$(file) ${file.file}`,
+      description: `${file.exists ? '' : 'new file · '}${hunks.length} hunk(s) · +${added} −${removed}`,
+      buttons: [DIFF_BUTTON],
+      fileIndex
+    });
+    for (const hunk of hunks) {
+      items.push({
+        label: `$(diff) Lines ${hunk.originalStart + 1}-${hunk.originalStart + Math.max(1, hunk.originalLines.length)}`,
+        description: `−${hunk.originalLines.length} +${hunk.proposedLines.length}`,
+        detail: summarizeHunk(hunk),
+        buttons: [DIFF_BUTTON],
+        fileIndex,
+        hunk
+      });
+    }
+  });
+
+  const quickPick = vscode.window.createQuickPick<ReviewItem>();
+  quickPick.title = `Review Grok changes: ${files.length} file(s), ${fileHunks.reduce((sum, hunks) => sum + hunks.length, 0)} hunk(s)`;
+  quickPick.placeholder = 'Uncheck files or hunks to reject them, then press Enter to apply the rest';
+  quickPick.canSelectMany = true;
+  quickPick.ignoreFocusOut = true;
+  quickPick.matchOnDetail = true;
+  quickPick.items = items;
+  quickPick.selectedItems = items;
+
+  // Checking or unchecking a file applies to all of its hunks; a file stays checked only while all its hunks are
+  let previous = new Set<ReviewItem>(items);
+  let syncing = false;
+  const onSelection = quickPick.onDidChangeSelection(selection => {
+    if (syncing) {
+      return;
+    }
+    const current = new Set(selection);
+    files.forEach((_, fileIndex) => {
+      const fileItem = items.find(item => item.fileIndex === fileIndex && !item.hunk)!;
+      const hunkItems = items.filter(item => item.fileIndex === fileIndex && item.hunk);
+      if (previous.has(fileItem) !== current.has(fileItem)) {
+        hunkItems.forEach(item => current.has(fileItem) ? current.add(item) : current.delete(item));
+      } else if (hunkItems.every(item => current.has(item))) {
+        current.add(fileItem);
+      } else {
+        current.delete(fileItem);
+      }
+    });
+    previous = current;
+    syncing = true;
+    quickPick.selectedItems = items.filter(item => current.has(item));
+    syncing = false;
+  });
+  const onButton = quickPick.onDidTriggerItemButton(event => void openDiff(event.item.fileIndex, event.item.hunk));
+
+  if (files.length > 0) {
+    await openDiff(0);
+  }
+
+  const accepted = await new Promise<readonly ReviewItem[] | undefined>(resolve => {
+    let done = false;
+    quickPick.onDidAccept(() => {
+      done = true;
+      resolve(quickPick.selectedItems);
+      quickPick.hide();
+    });
+    quickPick.onDidHide(() => {
+      if (!done) {
+        resolve(undefined);
+      }
+    });
+    quickPick.show();
+  });
+  onSelection.dispose();
+  onButton.dispose();
+  quickPick.dispose();
+  provider.clear(reviewId);
+
+  if (!accepted) {
+    return undefined;
+  }
+  const results = new Map<string, string>();
+  files.forEach((file, fileIndex) => {
+    const acceptedHunks = new Set(accepted.filter(item => item.fileIndex === fileIndex && item.hunk).map(item => item.hunk!.index));
+    if (acceptedHunks.size > 0) {
+      results.set(file.uri.toString(), applyReviewHunks(file.original, fileHunks[fileIndex], acceptedHunks));
+    }
+  });
+  return results;
+}
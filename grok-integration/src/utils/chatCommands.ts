@@ -0,0 +1,155 @@
+import * as vscode from "vscode";
+
+export interface ChatCommandSpec {
+  // Verb used in the task line, e.g. "explain" -> "Task: explain the following."
+  action: string;
+  // Output contract appended to the base system prompt
+  instructions: string;
+}
+
+export interface TestFrameworkInfo {
+  name: string;
+  language: string;
+  // Workspace-relative path of an existing test file, used to infer placement and naming
+  exampleTestFile?: string;
+}
+
+const FILE_BLOCK_RULE =
+  "Every code change must be preceded by a `--- FILE: relative/path/to/file.ext ---` header and given in a Markdown code block as SEARCH/REPLACE blocks (the exact existing lines under `<<<<<<< SEARCH`, then `=======`, the new lines and `>>>>>>> REPLACE`) or as a unified diff with `--- a/path`, `+++ b/path` and `@@` hunk headers, never as line numbers. Give a new file as `--- CREATE FILE: relative/path/to/file.ext ---` followed by a code block with the whole file.";
+
+export const CHAT_COMMANDS: Record<string, ChatCommandSpec> = {
+  explain: {
+    action: "explain",
+    instructions:
+      "Structure the answer as: 1) **Summary** - one paragraph on what the code does; 2) **Walkthrough** - step-by-step explanation of the control and data flow; 3) **Key Concepts** - algorithms, patterns or APIs the reader must understand; 4) **Caveats** - edge cases and security-relevant behaviour. Do not propose code changes unless asked.",
+  },
+  review: {
+    action: "review and suggest improvements for",
+    instructions:
+      "Structure the answer as a list of findings grouped under **Compulsory** (bugs, security issues, broken contracts) and **Suggested** (readability, maintainability, best practices). For each finding give the file and line, the problem, and the fix. " +
+      FILE_BLOCK_RULE,
+  },
+  debug: {
+    action: "debug",
+    instructions:
+      "Structure the answer as: 1) **Root Cause** - the most likely cause, with the evidence from the provided code; 2) **Other Candidates** - less likely causes worth ruling out; 3) **Fix** - the minimal change that resolves the issue; 4) **Verification** - how to confirm the fix (test, log statement or reproduction steps). " +
+      FILE_BLOCK_RULE,
+  },
+  refactor: {
+    action: "refactor",
+    instructions:
+      "Refactorings must preserve existing behaviour and public interfaces unless the user explicitly asks otherwise. Start with a numbered list of the refactorings (e.g. extract function, rename, remove duplication) and why each improves structure, readability or maintainability. Then give the complete refactored code for every changed region. " +
+      FILE_BLOCK_RULE +
+      " Finish with any behaviour the user should re-test.",
+  },
+  test: {
+    action: "write unit tests for",
+    instructions:
+      "Generate comprehensive unit tests covering the main paths, edge cases, error handling and boundary values. Follow the conventions of the detected test framework and of any existing test file. Emit each new test file in full as `--- CREATE FILE: relative/path/to/new.test.ext ---` followed by a single code block containing the whole file; add tests to an existing test file with a `--- FILE: relative/path/to/existing.test.ext ---` header and SEARCH/REPLACE blocks. Do not modify the code under test; if it is untestable as written, say why. Finish with the command to run the tests.",
+  },
+  optimize: {
+    action: "optimize",
+    instructions:
+      "Structure the answer as: 1) **Bottlenecks** - ranked by expected impact, with the time/space complexity before and after; 2) **Optimizations** - the changed code for each bottleneck; 3) **Trade-offs** - readability, memory or correctness risks introduced. Do not sacrifice security or correctness for speed. " +
+      FILE_BLOCK_RULE,
+  },
+  security: {
+    action: "perform a security analysis of",
+    instructions:
+      "Return findings ranked by severity, highest first, using the levels **Critical**, **High**, **Medium**, **Low** and **Informational**. Start with a Markdown table with the columns `Severity | Issue | Location | CWE | Fix Summary`. Then, for each finding in the same order, explain the attack vector and give the remediation. " +
+      FILE_BLOCK_RULE +
+      " If no vulnerabilities are found, state that explicitly and list what was checked.",
+  },
+};
+
+export const DEFAULT_CHAT_COMMAND: ChatCommandSpec = {
+  action: "respond to",
+  instructions: "",
+};
+
+export function getChatCommand(command: string | undefined): ChatCommandSpec {
+  return (command && CHAT_COMMANDS[command]) || DEFAULT_CHAT_COMMAND;
+}
+
+async function readWorkspaceFile(root: vscode.Uri, relativePath: string): Promise<string | undefined> {
+  try {
+    const bytes = await vscode.workspace.fs.readFile(vscode.Uri.joinPath(root, relativePath));
+    return new TextDecoder("utf-8").decode(bytes);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Detect the test framework of the first workspace folder from its manifest files.
+ * Returns undefined when no folder is open or nothing recognisable is found.
+ */
+export async function detectTestFramework(): Promise<TestFrameworkInfo | undefined> {
+  const root = vscode.workspace.workspaceFolders?.[0]?.uri;
+  if (!root) {
+    return undefined;
+  }
+
+  let framework: TestFrameworkInfo | undefined;
+
+  const packageJson = await readWorkspaceFile(root, "package.json");
+  if (packageJson) {
+    try {
+      const manifest = JSON.parse(packageJson);
+      const deps = { ...manifest.dependencies, ...manifest.devDependencies };
+      const language = deps.typescript ? "TypeScript" : "JavaScript";
+      const candidates = ["vitest", "jest", "mocha", "jasmine", "ava", "@playwright/test"];
+      const name = candidates.find((candidate) => candidate in deps);
+      if (name) {
+        framework = { name, language };
+      }
+    } catch {
+      // Malformed package.json: fall through to the other manifests
+    }
+  }
+
+  if (!framework) {
+    const manifests: Array<{ file: string; name: string; language: string; marker?: RegExp }> = [
+      { file: "pyproject.toml", name: "pytest", language: "Python", marker: /pytest/ },
+      { file: "pytest.ini", name: "pytest", language: "Python" },
+      { file: "requirements.txt", name: "pytest", language: "Python", marker: /pytest/ },
+      { file: "go.mod", name: "go test (testing package)", language: "Go" },
+      { file: "Cargo.toml", name: "cargo test (#[test])", language: "Rust" },
+      { file: "pom.xml", name: "JUnit", language: "Java" },
+      { file: "build.gradle", name: "JUnit", language: "Java/Kotlin" },
+      { file: "composer.json", name: "PHPUnit", language: "PHP", marker: /phpunit/ },
+      { file: "Gemfile", name: "RSpec", language: "Ruby", marker: /rspec/ },
+    ];
+    for (const manifest of manifests) {
+      const content = await readWorkspaceFile(root, manifest.file);
+      if (content !== undefined && (!manifest.marker || manifest.marker.test(content))) {
+        framework = { name: manifest.name, language: manifest.language };
+        break;
+      }
+    }
+  }
+
+  if (!framework) {
+    return undefined;
+  }
+
+  const [example] = await vscode.workspace.findFiles(
+    "**/{*.test.*,*.spec.*,test_*.py,*_test.py,*_test.go}",
+    "**/node_modules/**",
+    1
+  );
+  if (example) {
+    framework.exampleTestFile = vscode.workspace.asRelativePath(example);
+  }
+  return framework;
+}
+
+export function describeTestFramework(framework: TestFrameworkInfo | undefined): string {
+  if (!framework) {
+    return "No test framework was detected in the workspace; choose the most common framework for the language and say which one you picked.";
+  }
+  const example = framework.exampleTestFile
+    ? ` An existing test file is \`${framework.exampleTestFile}\`; match its location, naming and style.`
+    : "";
+  return `The workspace uses ${framework.name} (${framework.language}).${example}`;
+}
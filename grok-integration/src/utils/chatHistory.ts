@@ -0,0 +1,66 @@
+import OpenAI from 'openai';
+
+type ChatMessage = OpenAI.Chat.Completions.ChatCompletionMessageParam;
+
+// A chat turn reduced to what history needs; VS Code's turn classes cannot be constructed outside the editor
+export type ChatTurn =
+  | { kind: 'request'; participant: string; prompt: string; command?: string }
+  | { kind: 'response'; participant: string; text: string };
+
+export interface HistoryOptions {
+  participant: string;
+  // Prompt tokens left for history
+  tokenBudget: number;
+  // Sanitizing and redaction applied to every message
+  prepareText(text: string): string;
+  countTokens(messages: ChatMessage[]): number;
+}
+
+/**
+ * Earlier exchanges with this participant as user/assistant message pairs. A request counts
+ * only when this participant answered it; the oldest pairs are dropped until the rest fit.
+ */
+export function buildChatHistoryMessages(turns: ReadonlyArray<ChatTurn>, options: HistoryOptions): ChatMessage[] {
+  const pairs: Array<{ messages: ChatMessage[]; tokens: number }> = [];
+  let pendingRequest: Extract<ChatTurn, { kind: 'request' }> | undefined;
+
+  for (const turn of turns) {
+    if (turn.kind === 'request') {
+      pendingRequest = turn.participant === options.participant ? turn : undefined;
+      continue;
+    }
+    if (!pendingRequest || turn.participant !== options.participant) {
+      pendingRequest = undefined;
+      continue;
+    }
+
+    const requestText = pendingRequest.command ? `/${pendingRequest.command} ${pendingRequest.prompt}` : pendingRequest.prompt;
+    pendingRequest = undefined;
+    const responseText = turn.text.trim();
+    if (!responseText || !requestText.trim()) {
+      continue;
+    }
+
+    const messages: ChatMessage[] = [
+      { role: 'user', content: options.prepareText(requestText) },
+      { role: 'assistant', content: options.prepareText(responseText) }
+    ];
+    pairs.push({ messages, tokens: options.countTokens(messages) });
+  }
+
+  let totalTokens = pairs.reduce((sum, pair) => sum + pair.tokens, 0);
+  while (pairs.length > 0 && totalTokens > options.tokenBudget) {
+    totalTokens -= pairs.shift()!.tokens;
+  }
+  return pairs.flatMap(pair => pair.messages);
+}
+
+/**
+ * Messages for a follow-up in the Grok panel: the whole conversation plus the new question.
+ * Nothing is dropped, since the first message holds the code being discussed; callers
+ * refuse a conversation that no longer fits the prompt budget.
+ */
+export function buildFollowUpMessages(history: ReadonlyArray<ChatMessage>, question: string, prepareText: (text: string) => string): { userMessage: ChatMessage; messages: ChatMessage[] } {
+  const userMessage: ChatMessage = { role: 'user', content: prepareText(question) };
+  return { userMessage, messages: [...history, userMessage] };
+}
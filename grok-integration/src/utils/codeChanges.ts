@@ -0,0 +1,552 @@
+import * as path from 'path';
+
+/**
+ * Change formats Apply Changes understands:
+ * - block: a `--- FILE: path ---` header and a code block, placed by `action:`/`lines:` hints
+ * - search-replace: `<<<<<<< SEARCH` / `=======` / `>>>>>>> REPLACE` blocks under a file header
+ * - diff: a standard unified diff (```diff block with ---/+++ headers and @@ hunks)
+ * - create: a `--- CREATE FILE: path ---` header and a code block with the new file's content
+ * - delete: a `--- DELETE FILE: path ---` header on its own (or a diff to /dev/null)
+ * - rename: a `--- RENAME FILE: old/path -> new/path ---` header on its own (MOVE works too)
+ */
+export type CodeChangeFormat = 'block' | 'search-replace' | 'diff' | 'create' | 'delete' | 'rename';
+
+export interface SearchReplaceBlock {
+  search: string;
+  replace: string;
+}
+
+export interface DiffHunk {
+  header: string;
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  // Hunk body with the ' ', '-' and '+' prefixes kept
+  lines: string[];
+}
+
+export interface GrokCodeChange {
+  file: string;
+  code: string;
+  action?: string;
+  lineStart?: number;
+  lineEnd?: number;
+  format?: CodeChangeFormat;
+  searchReplace?: SearchReplaceBlock[];
+  hunks?: DiffHunk[];
+  // Target path of a rename
+  newFile?: string;
+}
+
+export interface BlockResult {
+  // 1-based position of the block or hunk within its change
+  index: number;
+  applied: boolean;
+  // 1-based line where the block was anchored, when it applied
+  line?: number;
+  // Why a block failed, or how it was anchored when not exactly
+  message?: string;
+}
+
+export interface ApplyResult {
+  content: string;
+  results: BlockResult[];
+}
+
+export interface ChangeReport {
+  file: string;
+  format: CodeChangeFormat;
+  results: BlockResult[];
+}
+
+const MAX_BLOCKS = 100; // Prevent runaway parsing of pathological responses
+const FENCE_REGEX = /```([^\n`]*)\n([\s\S]*?)```/g;
+const FILE_HEADER_REGEX = /--- FILE: ([^\n]+?) ---/g;
+const FILE_OPERATION_REGEX = /--- (CREATE|DELETE|RENAME|MOVE) FILE: ([^\n]+?) ---/g;
+const RENAME_ARROW_REGEX = /^(.+?)\s*(?:->|=>|→)\s*(.+)$/;
+const SEARCH_REPLACE_REGEX = /^<{5,9} SEARCH[^\n]*\n([\s\S]*?)^={5,9}[ \t]*\n([\s\S]*?)^>{5,9} REPLACE[^\n]*$/gm;
+const HUNK_HEADER_REGEX = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@/;
+
+export function isSafeRelativePath(file: string): boolean {
+  return file.length > 0 && !file.includes('..') && !path.isAbsolute(file);
+}
+
+function looksLikeUnifiedDiff(body: string): boolean {
+  return /^--- /m.test(body) && /^\+\+\+ /m.test(body) && /^@@ -\d+/m.test(body);
+}
+
+// "a/src/x.ts" or "b/src/x.ts" as written by git; a trailing tab and timestamp as written by diff -u
+function parseDiffPath(line: string): string | undefined {
+  const raw = line.slice(4).split('\t')[0].trim();
+  if (raw === '/dev/null') {
+    return undefined;
+  }
+  return raw.replace(/^[ab]\//, '');
+}
+
+export function parseSearchReplaceBlocks(body: string): SearchReplaceBlock[] {
+  const blocks: SearchReplaceBlock[] = [];
+  const normalized = body.replace(/\r\n/g, '\n');
+  for (const match of normalized.matchAll(SEARCH_REPLACE_REGEX)) {
+    blocks.push({ search: match[1].replace(/\n$/, ''), replace: match[2].replace(/\n$/, '') });
+  }
+  return blocks;
+}
+
+/**
+ * Parse a unified diff into one change per file. `fallbackFile` names the file when the
+ * diff has hunks but no ---/+++ headers (e.g. under a `--- FILE:` header).
+ */
+export function parseUnifiedDiff(body: string, fallbackFile?: string): GrokCodeChange[] {
+  const changes: GrokCodeChange[] = [];
+  const lines = body.replace(/\r\n/g, '\n').split('\n');
+  let current: GrokCodeChange | undefined;
+  let hunk: DiffHunk | undefined;
+
+  const startChange = (file: string | undefined) => {
+    current = undefined;
+    hunk = undefined;
+    if (!file) {
+      return;
+    }
+    if (!isSafeRelativePath(file)) {
+      console.warn(`Skipping potentially unsafe file path: ${file}`);
+      return;
+    }
+    current = { file, code: '', action: 'patch', format: 'diff', hunks: [] };
+    changes.push(current);
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      const oldPath = parseDiffPath(line);
+      const newPath = parseDiffPath(lines[i + 1]);
+      startChange(newPath);
+      // A diff to /dev/null deletes the file; its hunks only list the removed lines
+      if (!newPath && oldPath) {
+        const deletion = parseFileOperation('DELETE', oldPath);
+        if (deletion) {
+          changes.push(deletion);
+        }
+      }
+      i++;
+      continue;
+    }
+
+    const header = line.match(HUNK_HEADER_REGEX);
+    if (header) {
+      if (!current && changes.length === 0 && fallbackFile) {
+        startChange(fallbackFile);
+      }
+      if (!current) {
+        continue;
+      }
+      hunk = {
+        header: line,
+        oldStart: parseInt(header[1], 10),
+        oldLines: header[2] !== undefined ? parseInt(header[2], 10) : 1,
+        newStart: parseInt(header[3], 10),
+        newLines: header[4] !== undefined ? parseInt(header[4], 10) : 1,
+        lines: []
+      };
+      current.hunks!.push(hunk);
+      continue;
+    }
+
+    if (hunk && (line.startsWith(' ') || line.startsWith('-') || line.startsWith('+'))) {
+      hunk.lines.push(line);
+    } else if (hunk && line === '') {
+      // Editors and models often strip the single space of an empty context line
+      hunk.lines.push(' ');
+    }
+    // "\ No newline at end of file", diff --git and index lines carry nothing to apply
+  }
+
+  for (const change of changes) {
+    // Trailing blank context added by the empty-line rule above is not part of the hunk
+    for (const changeHunk of change.hunks || []) {
+      while (changeHunk.lines.length > 0 && changeHunk.lines[changeHunk.lines.length - 1] === ' ' &&
+        countHunkLines(changeHunk, ' ', '-') > changeHunk.oldLines) {
+        changeHunk.lines.pop();
+      }
+    }
+    change.code = (change.hunks || []).map(changeHunk => [changeHunk.header, ...changeHunk.lines].join('\n')).join('\n');
+  }
+  return changes.filter(change => change.format === 'delete' || (change.hunks || []).length > 0);
+}
+
+function countHunkLines(hunk: DiffHunk, ...prefixes: string[]): number {
+  return hunk.lines.filter(line => prefixes.includes(line[0])).length;
+}
+
+// Build a create, delete or rename change from its header; unsafe paths are skipped like any other change
+function parseFileOperation(kind: string, target: string, code = ''): GrokCodeChange | undefined {
+  if (kind === 'RENAME' || kind === 'MOVE') {
+    const arrow = target.match(RENAME_ARROW_REGEX);
+    const file = arrow?.[1].trim();
+    const newFile = arrow?.[2].trim();
+    if (!file || !newFile) {
+      console.warn(`Skipping rename without a target: ${target}`);
+      return undefined;
+    }
+    if (!isSafeRelativePath(file) || !isSafeRelativePath(newFile)) {
+      console.warn(`Skipping potentially unsafe rename: ${target}`);
+      return undefined;
+    }
+    return { file, newFile, code: '', action: 'rename', format: 'rename' };
+  }
+  const file = target.trim();
+  if (!isSafeRelativePath(file)) {
+    console.warn(`Skipping potentially unsafe file path: ${file}`);
+    return undefined;
+  }
+  return kind === 'CREATE'
+    ? { file, code, action: 'create', format: 'create' }
+    : { file, code: '', action: 'delete', format: 'delete' };
+}
+
+type GapHeader = { index: number; kind: string; target: string; length: number };
+
+// File and operation headers in the text between code blocks, in order
+function findGapHeaders(gap: string): GapHeader[] {
+  return [
+    ...Array.from(gap.matchAll(FILE_HEADER_REGEX), match => ({ index: match.index ?? 0, kind: 'FILE', target: match[1], length: match[0].length })),
+    ...Array.from(gap.matchAll(FILE_OPERATION_REGEX), match => ({ index: match.index ?? 0, kind: match[1], target: match[2], length: match[0].length }))
+  ].sort((a, b) => a.index - b.index);
+}
+
+// DELETE and RENAME headers need no code block, so they are taken straight from the gap text
+function parseStandaloneOperations(headers: GapHeader[]): GrokCodeChange[] {
+  return headers
+    .filter(header => header.kind !== 'FILE' && header.kind !== 'CREATE')
+    .map(header => parseFileOperation(header.kind, header.target))
+    .filter((change): change is GrokCodeChange => change !== undefined);
+}
+
+// Helper to parse Grok markdown response for code changes
+export function parseGrokCodeChanges(markdown: string): GrokCodeChange[] {
+  const changes: GrokCodeChange[] = [];
+
+  // Input validation
+  if (!markdown || typeof markdown !== 'string') {
+    return changes;
+  }
+
+  let gapStart = 0;
+  let iterationCount = 0;
+  for (const match of markdown.matchAll(FENCE_REGEX)) {
+    if (++iterationCount > MAX_BLOCKS) {
+      console.warn('parseGrokCodeChanges: Maximum blocks reached, remaining changes ignored');
+      break;
+    }
+
+    // The file header and hints are the text between the previous code block and this one
+    const gap = markdown.slice(gapStart, match.index);
+    gapStart = (match.index ?? 0) + match[0].length;
+    const language = match[1].trim().toLowerCase();
+    // The newline before the closing fence belongs to the fence, not the code
+    const body = match[2].replace(/\r?\n$/, '');
+    const headers = findGapHeaders(gap);
+    changes.push(...parseStandaloneOperations(headers));
+    // The code block belongs to the last header before it, if that is a FILE or CREATE header
+    const last = headers[headers.length - 1];
+    const header = last && (last.kind === 'FILE' || last.kind === 'CREATE') ? last : undefined;
+    const file = header?.target.trim();
+    const context = header ? gap.slice(header.index + header.length) : '';
+
+    if (header?.kind === 'CREATE') {
+      const creation = parseFileOperation('CREATE', header.target, body);
+      if (creation) {
+        changes.push(creation);
+      }
+      continue;
+    }
+
+    if (language === 'diff' || language === 'patch' || looksLikeUnifiedDiff(body)) {
+      changes.push(...parseUnifiedDiff(body, file));
+      continue;
+    }
+
+    // Validate file path
+    if (!file) {
+      continue;
+    }
+    if (!isSafeRelativePath(file)) {
+      console.warn(`Skipping potentially unsafe file path: ${file}`);
+      continue;
+    }
+
+    const blocks = parseSearchReplaceBlocks(body);
+    if (blocks.length > 0) {
+      changes.push({ file, code: body, action: 'edit', format: 'search-replace', searchReplace: blocks });
+      continue;
+    }
+
+    // Try to extract action and line range from context
+    let action = 'replace'; // default action
+    let lineStart: number | undefined;
+    let lineEnd: number | undefined;
+
+    // Look for action indicators in the context
+    const actionMatch = context.match(/(?:action|operation):\s*(replace|insert|append|prepend)/i);
+    if (actionMatch) {
+      action = actionMatch[1].toLowerCase();
+    }
+
+    // Look for line range indicators, e.g. "lines: 10-15"
+    const lineRangeMatch = context.match(/lines?:?\s*(\d+)(?:\s*-\s*(\d+))?/i);
+    if (lineRangeMatch) {
+      const startLine = parseInt(lineRangeMatch[1], 10);
+      const endLine = lineRangeMatch[2] ? parseInt(lineRangeMatch[2], 10) : startLine;
+
+      // Validate line numbers
+      if (startLine > 0 && endLine >= startLine && endLine <= 10000) { // Reasonable limits
+        lineStart = startLine;
+        lineEnd = endLine;
+      } else {
+        console.warn(`Invalid line range ${startLine}-${endLine} for file: ${file}`);
+      }
+    }
+
+    changes.push({ file, code: body, action, lineStart, lineEnd, format: 'block' });
+  }
+  changes.push(...parseStandaloneOperations(findGapHeaders(markdown.slice(gapStart))));
+
+  return changes;
+}
+
+// Whitespace-insensitive form of a line used for tolerant anchoring
+function normalizeLine(line: string): string {
+  return line.trim().replace(/\s+/g, ' ');
+}
+
+function leadingWhitespace(line: string): string {
+  return line.match(/^\s*/)?.[0] ?? '';
+}
+
+function trimBlankEdges(lines: string[]): string[] {
+  let start = 0;
+  let end = lines.length;
+  while (start < end && lines[start].trim() === '') {
+    start++;
+  }
+  while (end > start && lines[end - 1].trim() === '') {
+    end--;
+  }
+  return lines.slice(start, end);
+}
+
+/**
+ * All start indexes where `needle` occurs in `haystack` as consecutive lines, comparing
+ * exactly or with whitespace normalized.
+ */
+function findLineMatches(haystack: string[], needle: string[], tolerant: boolean): number[] {
+  const matches: number[] = [];
+  if (needle.length === 0 || needle.length > haystack.length) {
+    return matches;
+  }
+  const compare = tolerant
+    ? (a: string, b: string) => normalizeLine(a) === normalizeLine(b)
+    : (a: string, b: string) => a === b;
+  for (let i = 0; i + needle.length <= haystack.length; i++) {
+    let matched = true;
+    for (let j = 0; j < needle.length; j++) {
+      if (!compare(haystack[i + j], needle[j])) {
+        matched = false;
+        break;
+      }
+    }
+    if (matched) {
+      matches.push(i);
+    }
+  }
+  return matches;
+}
+
+// Shift replacement lines by the indentation difference between the search text and the file
+function reindent(lines: string[], from: string, to: string): string[] {
+  if (from === to) {
+    return lines;
+  }
+  return lines.map(line => {
+    if (line.trim() === '') {
+      return line;
+    }
+    if (to.startsWith(from)) {
+      return to.slice(from.length) + line;
+    }
+    if (from.startsWith(to) && line.startsWith(from.slice(to.length))) {
+      return line.slice(from.length - to.length);
+    }
+    return line;
+  });
+}
+
+function splitContent(content: string): { lines: string[]; eol: string } {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  return { lines: content.replace(/\r\n/g, '\n').split('\n'), eol };
+}
+
+/**
+ * Apply SEARCH/REPLACE blocks in order. Each SEARCH text must match exactly one place:
+ * exactly, or else line by line with whitespace differences ignored (the replacement is
+ * then re-indented to the file). An empty SEARCH appends to the file, which also covers
+ * creating a new one. Blocks that cannot be anchored are reported and skipped.
+ */
+export function applySearchReplace(content: string, blocks: SearchReplaceBlock[]): ApplyResult {
+  const { lines: fileLines, eol } = splitContent(content);
+  let lines = content === '' ? [] : fileLines;
+  const results: BlockResult[] = [];
+
+  blocks.forEach((block, blockIndex) => {
+    const index = blockIndex + 1;
+    const search = trimBlankEdges(block.search.replace(/\r\n/g, '\n').split('\n'));
+    const replace = block.replace === '' ? [] : block.replace.replace(/\r\n/g, '\n').split('\n');
+
+    if (search.length === 0) {
+      lines = lines.length === 0 ? replace : [...lines, ...replace];
+      results.push({ index, applied: true, line: Math.max(1, lines.length - replace.length + 1), message: 'appended (empty SEARCH)' });
+      return;
+    }
+
+    let matches = findLineMatches(lines, search, false);
+    let tolerant = false;
+    if (matches.length === 0) {
+      matches = findLineMatches(lines, search, true);
+      tolerant = true;
+    }
+
+    if (matches.length === 0) {
+      results.push({ index, applied: false, message: `SEARCH text not found (first line: "${search[0].trim()}")` });
+      return;
+    }
+    if (matches.length > 1) {
+      results.push({ index, applied: false, message: `SEARCH text matches ${matches.length} places (lines ${matches.map(match => match + 1).join(', ')}); include more surrounding lines` });
+      return;
+    }
+
+    const start = matches[0];
+    const firstCodeLine = search.findIndex(line => line.trim() !== '');
+    const replacement = tolerant
+      ? reindent(replace, leadingWhitespace(search[firstCodeLine]), leadingWhitespace(lines[start + firstCodeLine]))
+      : replace;
+    lines = [...lines.slice(0, start), ...replacement, ...lines.slice(start + search.length)];
+    results.push({ index, applied: true, line: start + 1, message: tolerant ? 'matched ignoring whitespace' : undefined });
+  });
+
+  return { content: lines.join(eol), results };
+}
+
+/**
+ * Apply unified diff hunks. Each hunk's old lines (context and removals) are looked for
+ * near the position its header names, adjusted for earlier hunks, so line numbers that
+ * drifted by a few lines still apply; whitespace differences are tolerated as a fallback.
+ * Hunks whose context is not found are reported and skipped.
+ */
+export function applyUnifiedDiff(content: string, hunks: DiffHunk[]): ApplyResult {
+  const { lines: fileLines, eol } = splitContent(content);
+  let lines = content === '' ? [] : fileLines;
+  const results: BlockResult[] = [];
+  let delta = 0;
+
+  hunks.forEach((hunk, hunkIndex) => {
+    const index = hunkIndex + 1;
+    const oldLines = hunk.lines.filter(line => line[0] === ' ' || line[0] === '-').map(line => line.slice(1));
+    const newLines = hunk.lines.filter(line => line[0] === ' ' || line[0] === '+').map(line => line.slice(1));
+    // For pure insertions the header names the line after which to insert
+    const expected = Math.max(0, Math.min(lines.length, (oldLines.length === 0 ? hunk.oldStart : hunk.oldStart - 1) + delta));
+
+    let start: number | undefined;
+    let tolerant = false;
+    if (oldLines.length === 0) {
+      start = expected;
+    } else {
+      for (const isTolerant of [false, true]) {
+        const matches = findLineMatches(lines, oldLines, isTolerant);
+        if (matches.length > 0) {
+          start = matches.reduce((best, match) => Math.abs(match - expected) < Math.abs(best - expected) ? match : best);
+          tolerant = isTolerant;
+          break;
+        }
+      }
+    }
+
+    if (start === undefined) {
+      const firstLine = oldLines.find(line => line.trim() !== '') ?? oldLines[0];
+      results.push({ index, applied: false, message: `${hunk.header}: context not found (first line: "${firstLine.trim()}")` });
+      return;
+    }
+
+    lines = [...lines.slice(0, start), ...newLines, ...lines.slice(start + oldLines.length)];
+    delta += newLines.length - oldLines.length;
+    const notes = [
+      start !== expected ? `offset ${start - expected > 0 ? '+' : ''}${start - expected} lines` : '',
+      tolerant ? 'matched ignoring whitespace' : ''
+    ].filter(note => note.length > 0);
+    results.push({ index, applied: true, line: start + 1, message: notes.length > 0 ? notes.join(', ') : undefined });
+  });
+
+  return { content: lines.join(eol), results };
+}
+
+export type BlockPlacement = 'lines' | 'append' | 'prepend' | 'anchored' | 'markers';
+
+export const SUGGESTION_START_MARKER = '// === GROK SUGGESTED CODE (please review and place appropriately) ===';
+export const SUGGESTION_END_MARKER = '// === END GROK SUGGESTION ===';
+
+// Append code the model gave no usable location for, fenced by markers so it is easy to find and move
+export function appendWithMarkers(content: string, code: string): string {
+  return `${content}\n\n${SUGGESTION_START_MARKER}\n${code}\n${SUGGESTION_END_MARKER}\n`;
+}
+
+/**
+ * Place a `--- FILE:` block using its `action:`/`lines:` hints. Without hints the block
+ * replaces the line matching its first line; if that line appears only inside other text
+ * the code is appended with markers. Returns undefined when nothing in the file resembles
+ * the block, leaving the caller to decide between replacing the file and appending.
+ */
+export function applyBlockChange(content: string, change: GrokCodeChange): { content: string; placement: BlockPlacement } | undefined {
+  const eol = content.includes('\r\n') ? '\r\n' : '\n';
+  const lines = content.split(/\r?\n/);
+
+  if (change.lineStart !== undefined && change.lineEnd !== undefined) {
+    const start = Math.max(0, Math.min(lines.length - 1, change.lineStart - 1));
+    const end = Math.max(start, Math.min(lines.length - 1, change.lineEnd - 1));
+    return { content: [...lines.slice(0, start), change.code, ...lines.slice(end + 1)].join(eol), placement: 'lines' };
+  }
+  if (change.action === 'append') {
+    return { content: `${content}\n${change.code}`, placement: 'append' };
+  }
+  if (change.action === 'prepend') {
+    return { content: `${change.code}\n${content}`, placement: 'prepend' };
+  }
+
+  const searchPattern = change.code.split('\n')[0].trim();
+  if (!searchPattern || !content.includes(searchPattern)) {
+    return undefined;
+  }
+  const foundIndex = lines.findIndex(line => line.trim() === searchPattern);
+  if (foundIndex < 0) {
+    return { content: appendWithMarkers(content, change.code), placement: 'markers' };
+  }
+  // Replaces just the matching line; SEARCH/REPLACE blocks are the precise alternative
+  return { content: [...lines.slice(0, foundIndex), change.code, ...lines.slice(foundIndex + 1)].join(eol), placement: 'anchored' };
+}
+
+// Markdown report listing every block that did not apply, grouped by file
+export function formatApplyReport(reports: ChangeReport[]): string {
+  const lines = ['# Grok Apply Changes Report', ''];
+  for (const report of reports) {
+    const failed = report.results.filter(result => !result.applied);
+    const label = report.format === 'diff' ? 'Hunk' : 'Block';
+    lines.push(`## ${report.file}`, '', `${report.results.length - failed.length} of ${report.results.length} ${label.toLowerCase()}(s) applied.`, '');
+    for (const result of report.results) {
+      const status = result.applied ? `✅ applied at line ${result.line}` : '❌ not applied';
+      lines.push(`- ${label} ${result.index}: ${status}${result.message ? ` - ${result.message}` : ''}`);
+    }
+    lines.push('');
+  }
+  return lines.join('\n');
+}
@@ -0,0 +1,107 @@
+export interface CommandPolicy {
+  // Command prefixes the agent may run; empty allows anything not denied
+  allow: string[];
+  // Command prefixes that are always refused
+  deny: string[];
+}
+
+export interface CommandDecision {
+  allowed: boolean;
+  reason?: string;
+}
+
+export interface CommandResult {
+  exitCode: number | undefined;
+  output: string;
+  timedOut: boolean;
+  cancelled: boolean;
+}
+
+export const DEFAULT_COMMAND_ALLOW_LIST = [
+  'npm test', 'npm run test', 'npm run build', 'npm run lint', 'npm run compile', 'npx tsc', 'yarn test', 'pnpm test',
+  'pytest', 'python -m pytest', 'go test', 'go build', 'go vet', 'cargo test', 'cargo build', 'cargo check',
+  'mvn test', 'gradle test', 'dotnet test', 'dotnet build', 'make test', 'git status', 'git diff', 'git log'
+];
+
+export const DEFAULT_COMMAND_DENY_LIST = [
+  'rm -rf', 'sudo', 'su', 'curl', 'wget', 'ssh', 'scp', 'git push', 'git reset --hard', 'git clean',
+  'npm publish', 'shutdown', 'reboot', 'mkfs', 'dd', 'chmod -R', 'chown'
+];
+
+// Output sent back to the model; test runners print the summary last, so the end is kept
+export const MAX_COMMAND_OUTPUT_CHARS = 16000;
+
+// Shell syntax that runs something other than the command as written
+const SUBSTITUTION_REGEX = /`|\$\(|<\(|>\(/;
+// Redirections other than merging stderr into stdout could read or overwrite files
+const FILE_REDIRECT_REGEX = /[<>]/;
+const STREAM_MERGE_REGEX = /\d?>&\d/g;
+// Line breaks separate commands too, so segments are split before whitespace is collapsed
+const SEGMENT_SEPARATOR_REGEX = /\|\||&&|[;|&\r\n]/;
+
+function normalizeCommand(command: string): string {
+  return command.trim().replace(/\s+/g, ' ');
+}
+
+// "npm test" matches "npm test" and "npm test -- --watch", not "npm tests"
+function matchesPrefix(command: string, prefix: string): boolean {
+  const normalizedPrefix = normalizeCommand(prefix);
+  return normalizedPrefix.length > 0 && (command === normalizedPrefix || command.startsWith(normalizedPrefix + ' '));
+}
+
+/**
+ * Decide whether the agent may run a command. Chained commands are split on shell
+ * operators and every part must pass, so an allowed prefix cannot smuggle in another
+ * command; substitution and file redirection are refused whenever an allow list is in force.
+ */
+export function evaluateCommand(command: string, policy: CommandPolicy): CommandDecision {
+  const normalized = normalizeCommand(command);
+  if (normalized === '') {
+    return { allowed: false, reason: 'the command is empty' };
+  }
+  const allow = policy.allow.filter(entry => entry.trim() !== '');
+  // 2>&1 is neither a file redirection nor a background operator
+  const withoutMerges = command.replace(STREAM_MERGE_REGEX, ' ');
+  if (allow.length > 0 && SUBSTITUTION_REGEX.test(normalized)) {
+    return { allowed: false, reason: 'command substitution is not allowed' };
+  }
+  if (allow.length > 0 && FILE_REDIRECT_REGEX.test(withoutMerges)) {
+    return { allowed: false, reason: 'redirecting to or from files is not allowed' };
+  }
+
+  const segments = withoutMerges.split(SEGMENT_SEPARATOR_REGEX).map(normalizeCommand).filter(segment => segment !== '');
+  for (const segment of segments) {
+    // Leading environment assignments (FOO=1 sudo ...) must not hide a denied program; for the
+    // allow list they count as part of the command, since PATH=... can change what runs
+    const program = segment.replace(/^(?:[A-Za-z_][A-Za-z0-9_]*=\S*\s+)+/, '');
+    const denied = policy.deny.find(entry => matchesPrefix(program, entry));
+    if (denied) {
+      return { allowed: false, reason: `"${denied}" is on the deny list (grokIntegration.agentCommandDenyList)` };
+    }
+    if (allow.length > 0 && !allow.some(entry => matchesPrefix(segment, entry))) {
+      return { allowed: false, reason: `"${segment}" is not on the allow list (grokIntegration.agentCommandAllowList)` };
+    }
+  }
+  return { allowed: true };
+}
+
+// Keep the end of the output within the limit
+export function truncateCommandOutput(output: string, limit = MAX_COMMAND_OUTPUT_CHARS): string {
+  return output.length > limit ? `[… ${output.length - limit} earlier characters omitted]\n${output.slice(output.length - limit)}` : output;
+}
+
+// Terminal control sequences mean nothing to the model
+export function stripAnsi(text: string): string {
+  // eslint-disable-next-line no-control-regex
+  return text.replace(/\x1b\[[0-9;?]*[ -/]*[@-~]|\x1b\][^\x07]*\x07/g, '');
+}
+
+export function formatCommandResult(command: string, result: CommandResult): string {
+  const status = result.cancelled
+    ? 'Cancelled by the user before it finished.'
+    : result.timedOut
+      ? 'Stopped: the command ran longer than the time limit.'
+      : `Exit code: ${result.exitCode ?? 'unknown'}`;
+  const output = truncateCommandOutput(stripAnsi(result.output).trim());
+  return `$ ${command}\n${status}\n\nOutput:\n${output || '(no output)'}`;
+}
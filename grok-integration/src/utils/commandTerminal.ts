@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+import { ChildProcess, spawn } from 'child_process';
+import { CommandResult } from './commandPolicy';
+
+// Output kept per command while it runs; the model only ever sees the end of it
+const MAX_CAPTURED_CHARS = 200_000;
+// Time a stopped command gets to exit after SIGTERM before it is killed
+const KILL_GRACE_MS = 2000;
+
+function signalProcessTree(child: ChildProcess, signal: NodeJS.Signals): void {
+  if (child.pid === undefined) {
+    return;
+  }
+  try {
+    if (process.platform === 'win32') {
+      child.kill(signal);
+    } else {
+      process.kill(-child.pid, signal);
+    }
+  } catch {
+    // The group is already gone; the shell itself may still need the signal
+    try {
+      child.kill(signal);
+    } catch {
+      // Already exited
+    }
+  }
+}
+
+// SIGTERM first, then SIGKILL for whatever is still running after the grace period
+function killProcessTree(child: ChildProcess): void {
+  signalProcessTree(child, 'SIGTERM');
+  setTimeout(() => signalProcessTree(child, 'SIGKILL'), KILL_GRACE_MS).unref();
+}
+
+/**
+ * Dedicated "Grok Agent" terminal that runs approved commands one at a time and captures
+ * their output. Backed by a pseudoterminal, so it shows exactly what was run and nothing
+ * else can be typed into it; Ctrl+C stops the running command.
+ */
+export class AgentCommandTerminal implements vscode.Disposable {
+  private terminal: vscode.Terminal | undefined;
+  private ready: Promise<void> | undefined;
+  private readonly writeEmitter = new vscode.EventEmitter<string>();
+  private readonly closeListener: vscode.Disposable;
+  private running: { child: ChildProcess; stop(status: 'timed out' | 'cancelled'): void } | undefined;
+
+  constructor(private readonly name = 'Grok Agent') {
+    this.closeListener = vscode.window.onDidCloseTerminal(closed => {
+      if (closed === this.terminal) {
+        this.stopRunning();
+        this.terminal = undefined;
+        this.ready = undefined;
+      }
+    });
+  }
+
+  get isBusy(): boolean {
+    return this.running !== undefined;
+  }
+
+  async run(command: string, cwd: string, timeoutMs: number, token?: vscode.CancellationToken): Promise<CommandResult> {
+    if (this.running) {
+      throw new Error('another command is still running');
+    }
+    await this.show();
+    this.write(`\x1b[1m$ ${command}\x1b[0m\r\n`);
+
+    return new Promise<CommandResult>(resolve => {
+      let output = '';
+      // Own process group, so stopping the command also stops what the shell started
+      const child = spawn(command, { cwd, shell: true, env: process.env, detached: process.platform !== 'win32' });
+
+      const capture = (chunk: Buffer) => {
+        if (this.running?.child !== child) {
+          return;
+        }
+        const text = chunk.toString('utf8');
+        output = (output + text).slice(-MAX_CAPTURED_CHARS);
+        this.write(text.replace(/\r?\n/g, '\r\n'));
+      };
+      child.stdout?.on('data', capture);
+      child.stderr?.on('data', capture);
+
+      const finish = (exitCode: number | undefined, status: 'exited' | 'timed out' | 'cancelled', error?: Error) => {
+        if (this.running?.child !== child) {
+          return;
+        }
+        clearTimeout(timer);
+        cancelSubscription?.dispose();
+        this.running = undefined;
+        if (error) {
+          output += `\n${error.message}`;
+        }
+        this.write(`\r\n\x1b[2m[${status === 'exited' ? `exit code ${exitCode ?? 'unknown'}` : status}]\x1b[0m\r\n\r\n`);
+        resolve({ exitCode, output, timedOut: status === 'timed out', cancelled: status === 'cancelled' });
+      };
+      // Report as soon as the command is stopped: a process that ignores SIGTERM, or a child
+      // that keeps the output open, would otherwise hold the agent until it exits
+      const stop = (status: 'timed out' | 'cancelled') => {
+        killProcessTree(child);
+        finish(undefined, status);
+      };
+      this.running = { child, stop };
+
+      const timer = setTimeout(() => stop('timed out'), timeoutMs);
+      const cancelSubscription = token?.onCancellationRequested(() => stop('cancelled'));
+      child.on('error', error => finish(undefined, 'exited', error));
+      child.on('close', code => finish(code ?? undefined, 'exited'));
+    });
+  }
+
+  dispose(): void {
+    this.stopRunning();
+    this.closeListener.dispose();
+    this.terminal?.dispose();
+    this.writeEmitter.dispose();
+  }
+
+  // Ctrl+C, closing the terminal and disposing all count as cancelling the command
+  private stopRunning(): void {
+    this.running?.stop('cancelled');
+  }
+
+  private write(text: string): void {
+    this.writeEmitter.fire(text);
+  }
+
+  // Create the terminal on first use and wait until it can show output
+  private show(): Promise<void> {
+    if (!this.terminal || !this.ready) {
+      this.ready = new Promise<void>(resolve => {
+        const pty: vscode.Pseudoterminal = {
+          onDidWrite: this.writeEmitter.event,
+          open: () => resolve(),
+          close: () => this.stopRunning(),
+          handleInput: data => {
+            if (data === '\x03') {
+              this.stopRunning();
+            }
+          }
+        };
+        this.terminal = vscode.window.createTerminal({ name: this.name, pty });
+      });
+    }
+    this.terminal!.show(true);
+    return this.ready;
+  }
+}
@@ -0,0 +1,80 @@
+import * as vscode from "vscode";
+
+// Key under which the xAI API key is stored in VS Code's SecretStorage
+const API_KEY_SECRET = "grokIntegration.apiKey";
+
+// Set once during activation; SecretStorage is only reachable through the extension context
+let secretStorage: vscode.SecretStorage | undefined;
+
+export function initializeSecretStorage(secrets: vscode.SecretStorage): void {
+  secretStorage = secrets;
+}
+
+function getSecretStorage(): vscode.SecretStorage {
+  if (!secretStorage) {
+    throw new Error("Secret storage not initialized");
+  }
+  return secretStorage;
+}
+
+export async function getApiKey(): Promise<string | undefined> {
+  const apiKey = await getSecretStorage().get(API_KEY_SECRET);
+  return apiKey && apiKey.trim() ? apiKey.trim() : undefined;
+}
+
+export async function setApiKey(apiKey: string): Promise<void> {
+  await getSecretStorage().store(API_KEY_SECRET, apiKey.trim());
+}
+
+export async function deleteApiKey(): Promise<void> {
+  await getSecretStorage().delete(API_KEY_SECRET);
+}
+
+/**
+ * Move a key left in the legacy `grokIntegration.apiKey` setting into
+ * SecretStorage, then clear it from every settings scope.
+ * @param config the grokIntegration settings; tests pass their own
+ * @returns true if a key was found in settings
+ */
+export async function migrateApiKeyFromSettings(
+  config: Pick<vscode.WorkspaceConfiguration, "inspect" | "update"> = vscode.workspace.getConfiguration("grokIntegration")
+): Promise<boolean> {
+  const inspected = config.inspect<string>("apiKey");
+  if (!inspected) {
+    return false;
+  }
+
+  const scopedValues: Array<[vscode.ConfigurationTarget, string | undefined]> = [
+    [vscode.ConfigurationTarget.Global, inspected.globalValue],
+    [vscode.ConfigurationTarget.Workspace, inspected.workspaceValue],
+    [vscode.ConfigurationTarget.WorkspaceFolder, inspected.workspaceFolderValue],
+  ];
+  const legacyKey = scopedValues
+    .map(([, value]) => (typeof value === "string" ? value.trim() : ""))
+    .find((value) => value.length > 0);
+
+  if (!legacyKey) {
+    return false;
+  }
+
+  // Never overwrite a key the user has already stored securely
+  if (!(await getApiKey())) {
+    await setApiKey(legacyKey);
+  }
+
+  for (const [target, value] of scopedValues) {
+    if (value !== undefined) {
+      try {
+        await config.update("apiKey", undefined, target);
+      } catch (error) {
+        console.warn(`Failed to clear legacy apiKey setting: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+  return true;
+}
+
+export async function getModel(): Promise<string> {
+  const config = vscode.workspace.getConfiguration("grokIntegration");
+  return config.get<string>("model") || "grok-3-mini";
+}
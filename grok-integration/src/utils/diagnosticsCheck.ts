@@ -0,0 +1,51 @@
+export interface DiagnosticEntry {
+  // Workspace-relative path, for messages and prompts
+  file: string;
+  // 1-based line
+  line: number;
+  message: string;
+  source?: string;
+  code?: string;
+}
+
+// Errors listed in the panel and in repair prompts; the rest are summarized as a count
+export const MAX_LISTED_DIAGNOSTICS = 30;
+
+// Line numbers move with every edit, so an error is identified by where it is reported and what it says
+function diagnosticKey(entry: DiagnosticEntry): string {
+  return [entry.file, entry.source || '', entry.code || '', entry.message].join('\u0000');
+}
+
+/**
+ * Errors present after an apply that were not there before it. Identical errors are
+ * counted, so a second copy of an existing error still shows up as new.
+ */
+export function findNewErrors(before: DiagnosticEntry[], after: DiagnosticEntry[]): DiagnosticEntry[] {
+  const remaining = new Map<string, number>();
+  for (const entry of before) {
+    const key = diagnosticKey(entry);
+    remaining.set(key, (remaining.get(key) || 0) + 1);
+  }
+  return after.filter(entry => {
+    const key = diagnosticKey(entry);
+    const count = remaining.get(key) || 0;
+    if (count > 0) {
+      remaining.set(key, count - 1);
+      return false;
+    }
+    return true;
+  });
+}
+
+export function formatDiagnostic(entry: DiagnosticEntry): string {
+  const origin = [entry.source, entry.code].filter(part => !!part).join(' ');
+  return `${entry.file}:${entry.line}${origin ? ` [${origin}]` : ''} ${entry.message.replace(/\s+/g, ' ').trim()}`;
+}
+
+export function formatDiagnosticList(entries: DiagnosticEntry[]): string {
+  const listed = entries.slice(0, MAX_LISTED_DIAGNOSTICS).map(entry => `- ${formatDiagnostic(entry)}`);
+  if (entries.length > MAX_LISTED_DIAGNOSTICS) {
+    listed.push(`- … and ${entries.length - MAX_LISTED_DIAGNOSTICS} more`);
+  }
+  return listed.join('\n');
+}
@@ -0,0 +1,66 @@
+import * as vscode from 'vscode';
+import OpenAI from 'openai';
+import validator from 'validator';
+
+export const DEFAULT_BASE_URL = 'https://api.x.ai/v1';
+export const DEFAULT_REQUEST_TIMEOUT_SECONDS = 60;
+
+export interface GrokClientOptions {
+  // Overrides the configured request timeout (milliseconds)
+  timeout?: number;
+}
+
+// Resolve the OpenAI-compatible endpoint, falling back to xAI if the setting is not a valid http(s) URL
+export function getGrokBaseUrl(): string {
+  const config = vscode.workspace.getConfiguration('grokIntegration');
+  const baseUrl = (config.get<string>('baseUrl') || '').trim();
+  if (!baseUrl) {
+    return DEFAULT_BASE_URL;
+  }
+
+  const isValid = validator.isURL(baseUrl, {
+    protocols: ['http', 'https'],
+    require_protocol: true,
+    require_tld: false // Allow localhost and internal hostnames
+  });
+  if (!isValid) {
+    console.warn(`Invalid grokIntegration.baseUrl "${baseUrl}", falling back to ${DEFAULT_BASE_URL}`);
+    return DEFAULT_BASE_URL;
+  }
+  return baseUrl.replace(/\/+$/, '');
+}
+
+// Only string-valued headers are forwarded; anything else in the setting is ignored
+export function getGrokCustomHeaders(): Record<string, string> {
+  const config = vscode.workspace.getConfiguration('grokIntegration');
+  const headers = config.get<Record<string, unknown>>('customHeaders') || {};
+  const result: Record<string, string> = {};
+  if (typeof headers !== 'object' || Array.isArray(headers)) {
+    return result;
+  }
+  for (const [name, value] of Object.entries(headers)) {
+    if (typeof value === 'string' && /^[A-Za-z0-9-]+$/.test(name)) {
+      result[name] = value;
+    }
+  }
+  return result;
+}
+
+export function getGrokRequestTimeoutMs(): number {
+  const config = vscode.workspace.getConfiguration('grokIntegration');
+  const seconds = config.get<number>('requestTimeoutSeconds') || DEFAULT_REQUEST_TIMEOUT_SECONDS;
+  return Math.max(5, Math.min(600, seconds)) * 1000; // Clamped between 5s and 10min
+}
+
+/**
+ * Single entry point for creating API clients so every request honours the
+ * configured endpoint, headers and timeout.
+ */
+export function createGrokClient(apiKey: string, options: GrokClientOptions = {}): OpenAI {
+  return new OpenAI({
+    apiKey: apiKey.trim(),
+    baseURL: getGrokBaseUrl(),
+    timeout: options.timeout ?? getGrokRequestTimeoutMs(),
+    defaultHeaders: getGrokCustomHeaders()
+  });
+}
@@ -0,0 +1,182 @@
+import * as vscode from 'vscode';
+
+export const DEFAULT_INLINE_COMPLETION_MODEL = 'grok-code-fast-1';
+export const DEFAULT_INLINE_COMPLETION_DEBOUNCE_MS = 350;
+// Completions are a few lines at most; a small limit keeps them fast and cheap
+export const INLINE_COMPLETION_MAX_TOKENS = 256;
+
+const MAX_PREFIX_CHARS = 4000;
+const MAX_SUFFIX_CHARS = 1500;
+const MAX_CONTEXT_FILES = 3;
+const MAX_CONTEXT_FILE_CHARS = 2000;
+const CURSOR_MARKER = '<|cursor|>';
+
+export const INLINE_COMPLETION_SYSTEM_PROMPT =
+  'You are a code completion engine. You are given a file with the cursor marked as ' + CURSOR_MARKER + ', and possibly excerpts of other open files. ' +
+  'Reply with only the text to insert at the cursor: no explanations, no Markdown fences, and nothing that repeats the code before or after the cursor. ' +
+  'Complete the current statement or block, at most a few lines. Reply with nothing if no completion makes sense.';
+
+export interface CompletionWindow {
+  // Text before the cursor, cut at a line start
+  prefix: string;
+  // Text after the cursor, cut at a line end
+  suffix: string;
+}
+
+export interface ContextSnippet {
+  path: string;
+  content: string;
+}
+
+export interface InlineCompletionRequest {
+  filePath: string;
+  languageId: string;
+  window: CompletionWindow;
+  // Complete user message, built from the fields above
+  prompt: string;
+}
+
+// Sends the request and returns the raw reply; undefined when nothing should be shown
+export type InlineCompletionBackend = (request: InlineCompletionRequest, token: vscode.CancellationToken) => Promise<string | undefined>;
+
+export interface InlineCompletionOptions {
+  isEnabled(languageId: string): boolean;
+  debounceMs: number;
+  // Whether another open document may be sent as context
+  canShareDocument(uri: vscode.Uri): boolean;
+}
+
+export function buildCompletionWindow(text: string, offset: number, maxPrefixChars = MAX_PREFIX_CHARS, maxSuffixChars = MAX_SUFFIX_CHARS): CompletionWindow {
+  let prefixStart = Math.max(0, offset - maxPrefixChars);
+  if (prefixStart > 0) {
+    const nextLine = text.indexOf('\n', prefixStart);
+    prefixStart = nextLine >= 0 && nextLine < offset ? nextLine + 1 : prefixStart;
+  }
+  let suffixEnd = Math.min(text.length, offset + maxSuffixChars);
+  if (suffixEnd < text.length) {
+    const lineEnd = text.lastIndexOf('\n', suffixEnd);
+    suffixEnd = lineEnd > offset ? lineEnd : suffixEnd;
+  }
+  return { prefix: text.slice(prefixStart, offset), suffix: text.slice(offset, suffixEnd) };
+}
+
+export function buildInlineCompletionPrompt(filePath: string, languageId: string, window: CompletionWindow, snippets: ContextSnippet[]): string {
+  const parts: string[] = [];
+  for (const snippet of snippets) {
+    parts.push(`Excerpt of the open file ${snippet.path}:\n${snippet.content}`);
+  }
+  parts.push(`File ${filePath} (${languageId}):\n${window.prefix}${CURSOR_MARKER}${window.suffix}`);
+  return parts.join('\n\n');
+}
+
+/**
+ * Turn a model reply into text that can be inserted at the cursor: fences are removed,
+ * and a restated start of the current line or a repeated start of the suffix is dropped.
+ */
+export function cleanCompletion(raw: string, window: CompletionWindow): string {
+  let text = raw.replace(/\r\n/g, '\n');
+  const fenced = text.match(/^\s*```[\w+#.-]*\n([\s\S]*?)\n?```\s*$/);
+  if (fenced) {
+    text = fenced[1];
+  }
+  text = text.split(CURSOR_MARKER).join('');
+
+  const linePrefix = window.prefix.slice(window.prefix.lastIndexOf('\n') + 1);
+  if (linePrefix.trim() !== '' && text.startsWith(linePrefix)) {
+    text = text.slice(linePrefix.length);
+  }
+
+  // The longest end of the completion that the code after the cursor already starts with;
+  // a blank rest of the current line does not count
+  const suffix = window.suffix.replace(/^[ \t]*\n/, '');
+  for (let length = Math.min(text.length, suffix.length); length > 0; length--) {
+    const overlap = text.slice(text.length - length);
+    if (overlap.trim() !== '' && suffix.startsWith(overlap)) {
+      text = text.slice(0, text.length - length);
+      break;
+    }
+  }
+  return text.replace(/\s+$/, '');
+}
+
+// Per-language switches as in { "*": true, "markdown": false }; "*" applies to unlisted languages
+export function isLanguageEnabled(setting: Record<string, unknown> | undefined, languageId: string): boolean {
+  const value = setting?.[languageId] ?? setting?.['*'];
+  return value === true;
+}
+
+export function setLanguageEnabled(setting: Record<string, unknown> | undefined, languageId: string, enabled: boolean): Record<string, boolean> {
+  const result: Record<string, boolean> = {};
+  for (const [language, value] of Object.entries(setting || {})) {
+    if (typeof value === 'boolean') {
+      result[language] = value;
+    }
+  }
+  result[languageId] = enabled;
+  return result;
+}
+
+// Resolves false when the token is cancelled first, which is how VS Code reports further typing
+export function waitUnlessCancelled(ms: number, token: vscode.CancellationToken): Promise<boolean> {
+  if (token.isCancellationRequested) {
+    return Promise.resolve(false);
+  }
+  return new Promise(resolve => {
+    const timer = setTimeout(() => {
+      subscription.dispose();
+      resolve(true);
+    }, ms);
+    const subscription = token.onCancellationRequested(() => {
+      clearTimeout(timer);
+      subscription.dispose();
+      resolve(false);
+    });
+  });
+}
+
+export class GrokInlineCompletionProvider implements vscode.InlineCompletionItemProvider {
+  constructor(private readonly backend: InlineCompletionBackend, private readonly getOptions: () => InlineCompletionOptions) { }
+
+  async provideInlineCompletionItems(document: vscode.TextDocument, position: vscode.Position, _context: vscode.InlineCompletionContext, token: vscode.CancellationToken): Promise<vscode.InlineCompletionItem[] | undefined> {
+    const options = this.getOptions();
+    if (!options.isEnabled(document.languageId) || !await waitUnlessCancelled(options.debounceMs, token)) {
+      return undefined;
+    }
+
+    const window = buildCompletionWindow(document.getText(), document.offsetAt(position));
+    if (window.prefix.trim() === '') {
+      return undefined;
+    }
+    const filePath = vscode.workspace.asRelativePath(document.uri);
+    const prompt = buildInlineCompletionPrompt(filePath, document.languageId, window, this.collectSnippets(document, options));
+    const reply = await this.backend({ filePath, languageId: document.languageId, window, prompt }, token);
+    if (!reply || token.isCancellationRequested) {
+      return undefined;
+    }
+    const text = cleanCompletion(reply, window);
+    return text.trim() === '' ? undefined : [new vscode.InlineCompletionItem(text, new vscode.Range(position, position))];
+  }
+
+  // Visible editors first, then other open files in the same language
+  private collectSnippets(document: vscode.TextDocument, options: InlineCompletionOptions): ContextSnippet[] {
+    const visible = vscode.window.visibleTextEditors.map(editor => editor.document);
+    const sameLanguage = vscode.workspace.textDocuments.filter(candidate => candidate.languageId === document.languageId);
+    const seen = new Set<string>([document.uri.toString()]);
+    const snippets: ContextSnippet[] = [];
+    for (const candidate of [...visible, ...sameLanguage]) {
+      const key = candidate.uri.toString();
+      if (snippets.length >= MAX_CONTEXT_FILES || seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+      if (candidate.uri.scheme !== 'file' || !options.canShareDocument(candidate.uri)) {
+        continue;
+      }
+      const content = candidate.getText().slice(0, MAX_CONTEXT_FILE_CHARS);
+      if (content.trim() !== '') {
+        snippets.push({ path: vscode.workspace.asRelativePath(candidate.uri), content });
+      }
+    }
+    return snippets;
+  }
+}
@@ -0,0 +1,15 @@
+import * as fs from 'fs';
+
+// Parsed contents of a JSON file, or undefined when it does not exist; other read and parse errors are thrown
+export async function readJsonFile(filePath: string): Promise<unknown> {
+  let raw: string;
+  try {
+    raw = await fs.promises.readFile(filePath, 'utf8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+  return JSON.parse(raw);
+}
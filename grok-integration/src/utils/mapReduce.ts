@@ -0,0 +1,132 @@
+export type WorkspaceChunkingMode = 'auto' | 'off' | 'always';
+
+export interface WorkspaceFile {
+  path: string;
+  content: string;
+}
+
+export interface BatchFile extends WorkspaceFile {
+  // Label sent in the file header, e.g. "src/big.ts (part 2/3, lines 401-800)"
+  label: string;
+  tokens: number;
+}
+
+export interface Batch {
+  files: BatchFile[];
+  tokens: number;
+}
+
+export type TokenCounter = (text: string) => number;
+
+// Map answers are notes for the reduce step, so they are kept shorter than a full answer
+export const MAP_RESPONSE_TOKENS = 4096;
+
+// A batch budget below this leaves too little room for code; the instruction is too long for the prompt budget
+export const MIN_BATCH_TOKENS = 1000;
+
+// Each batch is a paid request, so larger runs are confirmed before the first one is sent
+export const MAX_BATCHES_WITHOUT_CONFIRMATION = 10;
+
+export function formatBatchFile(file: BatchFile): string {
+  return `\n\n--- FILE: ${file.label} ---\n${file.content}\n--- END FILE ---`;
+}
+
+/**
+ * Split a file that does not fit a batch on its own into line ranges that do.
+ * A single line longer than the budget becomes its own part rather than being cut.
+ */
+export function splitOversizedFile(file: WorkspaceFile, maxTokens: number, count: TokenCounter): BatchFile[] {
+  const lines = file.content.split('\n');
+  // Counting line by line keeps this linear; per-line counts add up to within a few tokens of the whole
+  const headerTokens = count(formatBatchFile({ path: file.path, label: `${file.path} (part 00/00, lines 000000-000000)`, content: '', tokens: 0 }));
+  const parts: Array<{ start: number; end: number; content: string }> = [];
+  let current: string[] = [];
+  let currentTokens = headerTokens;
+  let start = 1;
+
+  for (const line of lines) {
+    const lineTokens = count(line + '\n');
+    if (current.length > 0 && currentTokens + lineTokens > maxTokens) {
+      parts.push({ start, end: start + current.length - 1, content: current.join('\n') });
+      start += current.length;
+      current = [];
+      currentTokens = headerTokens;
+    }
+    current.push(line);
+    currentTokens += lineTokens;
+  }
+  if (current.length > 0) {
+    parts.push({ start, end: start + current.length - 1, content: current.join('\n') });
+  }
+
+  return parts.map((part, index) => {
+    const label = `${file.path} (part ${index + 1}/${parts.length}, lines ${part.start}-${part.end})`;
+    const batchFile: BatchFile = { path: file.path, label, content: part.content, tokens: 0 };
+    batchFile.tokens = count(formatBatchFile(batchFile));
+    return batchFile;
+  });
+}
+
+/**
+ * Pack files into batches of at most batchBudget tokens, keeping workspace order so
+ * neighbouring files (usually related) land in the same batch.
+ */
+export function planBatches(files: WorkspaceFile[], batchBudget: number, count: TokenCounter): Batch[] {
+  const batches: Batch[] = [];
+  let current: Batch = { files: [], tokens: 0 };
+
+  const pieces = files.flatMap(file => {
+    const whole: BatchFile = { ...file, label: file.path, tokens: 0 };
+    whole.tokens = count(formatBatchFile(whole));
+    return whole.tokens > batchBudget ? splitOversizedFile(file, batchBudget, count) : [whole];
+  });
+
+  for (const piece of pieces) {
+    if (current.files.length > 0 && current.tokens + piece.tokens > batchBudget) {
+      batches.push(current);
+      current = { files: [], tokens: 0 };
+    }
+    current.files.push(piece);
+    current.tokens += piece.tokens;
+  }
+  if (current.files.length > 0) {
+    batches.push(current);
+  }
+  return batches;
+}
+
+export function buildMapPrompt(instruction: string, batchIndex: number, batchCount: number): string {
+  return `The user's request is: "${instruction}".\n\n` +
+    `The workspace is too large for one request, so it is being analysed in ${batchCount} batches. This is batch ${batchIndex + 1} of ${batchCount}. ` +
+    'Work only from the files below. Write concise notes that answer the request for these files: findings, relevant code locations (file and line) and any code changes in the usual `--- FILE: path ---` format. ' +
+    'Mention cross-file dependencies you notice so they can be connected to other batches. Do not write an introduction or a conclusion; your notes will be merged with the other batches.';
+}
+
+export function buildReducePrompt(instruction: string, notes: string[], final: boolean): string {
+  const sections = notes.map((note, index) => `--- NOTES ${index + 1} ---\n${note}\n--- END NOTES ---`).join('\n\n');
+  const task = final
+    ? `Combine them into a single, complete answer to the user's request: "${instruction}". Remove duplicates, resolve contradictions, connect findings across files, and keep every code change with its \`--- FILE: path ---\` header.`
+    : `Merge them into one set of notes for the request "${instruction}", keeping every distinct finding, file reference and code change.`;
+  return `Below are notes produced by analysing different parts of a workspace.\n\n${task}\n\n${sections}`;
+}
+
+// Group notes so every reduce call fits the prompt budget; a single oversized note gets its own group
+export function groupNotes(notes: string[], budget: number, count: TokenCounter): string[][] {
+  const groups: string[][] = [];
+  let current: string[] = [];
+  let tokens = 0;
+  for (const note of notes) {
+    const noteTokens = count(note);
+    if (current.length > 0 && tokens + noteTokens > budget) {
+      groups.push(current);
+      current = [];
+      tokens = 0;
+    }
+    current.push(note);
+    tokens += noteTokens;
+  }
+  if (current.length > 0) {
+    groups.push(current);
+  }
+  return groups;
+}
@@ -0,0 +1,93 @@
+import * as vscode from 'vscode';
+
+// Context windows (prompt + response tokens) as published by xAI; longest prefix wins
+export const MODEL_CONTEXT_WINDOWS: Record<string, number> = {
+  'grok-code-fast': 256_000,
+  'grok-4-fast': 2_000_000,
+  'grok-4': 256_000,
+  'grok-3-mini': 131_072,
+  'grok-3': 131_072,
+  'grok-2-vision': 32_768,
+  'grok-2': 131_072,
+  'grok-beta': 131_072
+};
+
+// Used for models missing from the table, e.g. when baseUrl points at another server
+export const DEFAULT_CONTEXT_WINDOW = 131_072;
+export const DEFAULT_MAX_RESPONSE_TOKENS = 9000;
+// Prompts used to be capped by maxTokens; 0 (the whole remaining context window) is opt-in
+export const DEFAULT_MAX_PROMPT_TOKENS = 9000;
+
+export interface TokenBudget {
+  model: string;
+  contextWindow: number;
+  // Largest prompt (system prompt, history and user message) that may be sent
+  maxPromptTokens: number;
+  // Sent to the API as max_tokens
+  maxResponseTokens: number;
+}
+
+function lookupByPrefix(model: string, table: Record<string, number>): number | undefined {
+  const normalized = model.toLowerCase().trim();
+  if (table[normalized] !== undefined) {
+    return table[normalized];
+  }
+  const prefix = Object.keys(table)
+    .filter(name => normalized.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? table[prefix] : undefined;
+}
+
+export function getContextWindow(model: string): number {
+  const config = vscode.workspace.getConfiguration('grokIntegration');
+  const overrides: Record<string, number> = {};
+  for (const [name, value] of Object.entries(config.get<Record<string, unknown>>('modelContextWindows') || {})) {
+    if (typeof value === 'number' && Number.isFinite(value) && value > 0) {
+      overrides[name.toLowerCase()] = Math.floor(value);
+    }
+  }
+  return lookupByPrefix(model, overrides) ?? lookupByPrefix(model, MODEL_CONTEXT_WINDOWS) ?? DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Split a context window between prompt and response. The response budget is reserved
+ * first so a large prompt can never shrink the room left for the answer; a prompt limit
+ * of 0 means "whatever the window has left".
+ */
+export function computeTokenBudget(model: string, contextWindow: number, maxResponseTokens: number, maxPromptTokens: number): TokenBudget {
+  const response = Math.max(1, Math.min(Math.floor(maxResponseTokens), contextWindow - 1));
+  const available = contextWindow - response;
+  const prompt = maxPromptTokens > 0 ? Math.min(Math.floor(maxPromptTokens), available) : available;
+  return { model, contextWindow, maxPromptTokens: prompt, maxResponseTokens: response };
+}
+
+/**
+ * Prompt limit from the settings. Users who have not set maxPromptTokens keep the cap they
+ * had before it existed, their maxTokens value, rather than silently getting the whole window.
+ */
+export function resolvePromptTokenLimit(maxPromptTokens: number | undefined, maxTokens: number | undefined): number {
+  if (typeof maxPromptTokens === 'number' && maxPromptTokens >= 0) {
+    return maxPromptTokens;
+  }
+  return maxTokens && maxTokens > 0 ? maxTokens : DEFAULT_MAX_PROMPT_TOKENS;
+}
+
+export function getTokenBudget(model: string): TokenBudget {
+  const config = vscode.workspace.getConfiguration('grokIntegration');
+  const promptSetting = config.inspect<number>('maxPromptTokens');
+  const explicitPromptTokens = promptSetting?.workspaceFolderValue ?? promptSetting?.workspaceValue ?? promptSetting?.globalValue;
+  const maxTokens = config.get<number>('maxTokens') || DEFAULT_MAX_RESPONSE_TOKENS;
+  return computeTokenBudget(
+    model,
+    getContextWindow(model),
+    maxTokens,
+    resolvePromptTokenLimit(explicitPromptTokens, maxTokens)
+  );
+}
+
+// One-line summary for pre-flight errors, e.g. "prompt 140,210 / 122,072 tokens, response 9,000 tokens, context window 131,072 (grok-3)"
+export function describeTokenBudget(promptTokens: number, budget: TokenBudget): string {
+  return `prompt ${promptTokens.toLocaleString()} / ${budget.maxPromptTokens.toLocaleString()} tokens, ` +
+    `response ${budget.maxResponseTokens.toLocaleString()} tokens, ` +
+    `context window ${budget.contextWindow.toLocaleString()} (${budget.model})`;
+}
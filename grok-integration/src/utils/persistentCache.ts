@@ -0,0 +1,254 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { readJsonFile } from './jsonFile';
+
+export interface PersistedCacheEntry {
+  response: string;
+  timestamp: number;
+  tokenCount: number;
+  responseTokenCount?: number;
+  model?: string;
+  action?: string;
+  language?: string;
+  schemaVersion?: number;
+  promptVersion?: string;
+}
+
+interface PersistedCacheFile {
+  version: number;
+  entries: Record<string, PersistedCacheEntry>;
+}
+
+const CACHE_FILE_VERSION = 1;
+const CACHE_FILE_NAME = 'response-cache.json';
+const FLUSH_DELAY_MS = 2000;
+
+function isValidEntry(value: unknown): value is PersistedCacheEntry {
+  const entry = value as PersistedCacheEntry;
+  return !!entry &&
+    typeof entry.response === 'string' && entry.response.length > 0 &&
+    typeof entry.timestamp === 'number' && Number.isFinite(entry.timestamp) &&
+    typeof entry.tokenCount === 'number';
+}
+
+/**
+ * Disk-backed second tier behind the in-memory LRU cache.
+ *
+ * Only responses and their metadata are written; request code never is, and every
+ * response passes through the redactor before it reaches disk. The file is bounded by
+ * size (oldest entries are evicted first) and entries older than the TTL are dropped.
+ */
+export class PersistentResponseCache {
+  private entries = new Map<string, PersistedCacheEntry>();
+  private loaded = false;
+  private dirty = false;
+  private flushTimer: NodeJS.Timeout | undefined;
+
+  constructor(
+    private readonly storageDir: string,
+    private maxBytes: number,
+    private ttlMs: number,
+    private readonly redact: (text: string) => string,
+    // Told how many entries were evicted to stay within maxBytes, for the cache statistics
+    private readonly onEvict?: (count: number) => void
+  ) { }
+
+  get filePath(): string {
+    return path.join(this.storageDir, CACHE_FILE_NAME);
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  configure(maxBytes: number, ttlMs: number): void {
+    this.maxBytes = maxBytes;
+    this.ttlMs = ttlMs;
+    if (this.pruneExpired() + this.evictToFit() > 0) {
+      this.scheduleFlush();
+    }
+  }
+
+  // Load entries from disk; a corrupt file is set aside and the cache starts empty
+  async load(): Promise<void> {
+    try {
+      const parsed = await readJsonFile(this.filePath) as PersistedCacheFile | undefined;
+      if (!parsed) {
+        return;
+      }
+      if (parsed.version !== CACHE_FILE_VERSION || typeof parsed.entries !== 'object' || parsed.entries === null) {
+        throw new Error(`Unsupported cache file format`);
+      }
+
+      let skipped = 0;
+      for (const [key, entry] of Object.entries(parsed.entries)) {
+        if (typeof key === 'string' && key.length > 0 && isValidEntry(entry)) {
+          this.entries.set(key, {
+            response: entry.response,
+            timestamp: entry.timestamp,
+            tokenCount: entry.tokenCount,
+            responseTokenCount: typeof entry.responseTokenCount === 'number' ? entry.responseTokenCount : undefined,
+            model: typeof entry.model === 'string' ? entry.model : undefined,
+            action: typeof entry.action === 'string' ? entry.action : undefined,
+            language: typeof entry.language === 'string' ? entry.language : undefined,
+            schemaVersion: typeof entry.schemaVersion === 'number' ? entry.schemaVersion : undefined,
+            promptVersion: typeof entry.promptVersion === 'string' ? entry.promptVersion : undefined
+          });
+        } else {
+          skipped++;
+        }
+      }
+      if (skipped > 0) {
+        console.warn(`Persistent cache: skipped ${skipped} invalid entries`);
+        this.dirty = true;
+      }
+      if (this.pruneExpired() + this.evictToFit() > 0) {
+        this.dirty = true;
+      }
+    } catch (error) {
+      console.warn(`Persistent cache unreadable, starting empty: ${error instanceof Error ? error.message : String(error)}`);
+      await this.quarantineCorruptFile();
+    } finally {
+      this.loaded = true;
+    }
+  }
+
+  get(key: string): PersistedCacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    if (Date.now() - entry.timestamp > this.ttlMs) {
+      this.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  set(key: string, entry: PersistedCacheEntry): void {
+    this.entries.set(key, { ...entry, response: this.redact(entry.response) });
+    this.evictToFit();
+    this.scheduleFlush();
+  }
+
+  delete(key: string): boolean {
+    const deleted = this.entries.delete(key);
+    if (deleted) {
+      this.scheduleFlush();
+    }
+    return deleted;
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.scheduleFlush();
+  }
+
+  // Remove every entry matching the predicate, e.g. entries from an outdated key schema
+  purge(predicate: (entry: PersistedCacheEntry) => boolean): number {
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (predicate(entry)) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      this.scheduleFlush();
+    }
+    return removed;
+  }
+
+  keys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  pruneExpired(): number {
+    const now = Date.now();
+    let removed = 0;
+    for (const [key, entry] of this.entries) {
+      if (now - entry.timestamp > this.ttlMs) {
+        this.entries.delete(key);
+        removed++;
+      }
+    }
+    if (removed > 0) {
+      this.scheduleFlush();
+    }
+    return removed;
+  }
+
+  // Evict the oldest entries until the serialized cache fits within maxBytes
+  private evictToFit(): number {
+    const sizes = new Map<string, number>();
+    let total = 0;
+    for (const [key, entry] of this.entries) {
+      const size = Buffer.byteLength(JSON.stringify(entry), 'utf8') + Buffer.byteLength(key, 'utf8');
+      sizes.set(key, size);
+      total += size;
+    }
+    if (total <= this.maxBytes) {
+      return 0;
+    }
+
+    const oldestFirst = Array.from(this.entries.entries()).sort((a, b) => a[1].timestamp - b[1].timestamp);
+    let evicted = 0;
+    for (const [key] of oldestFirst) {
+      if (total <= this.maxBytes) {
+        break;
+      }
+      total -= sizes.get(key) || 0;
+      this.entries.delete(key);
+      evicted++;
+    }
+    if (evicted > 0) {
+      this.onEvict?.(evicted);
+    }
+    return evicted;
+  }
+
+  private scheduleFlush(): void {
+    this.dirty = true;
+    if (this.flushTimer) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      void this.flush();
+    }, FLUSH_DELAY_MS);
+  }
+
+  // Write atomically (temp file + rename) so a crash mid-write never leaves a truncated cache
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    // Never overwrite the file with an empty map before it has been read
+    if (!this.dirty || !this.loaded) {
+      return;
+    }
+    this.dirty = false;
+
+    const data: PersistedCacheFile = { version: CACHE_FILE_VERSION, entries: Object.fromEntries(this.entries) };
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    try {
+      await fs.promises.mkdir(this.storageDir, { recursive: true });
+      await fs.promises.writeFile(tempPath, JSON.stringify(data), { encoding: 'utf8', mode: 0o600 });
+      await fs.promises.rename(tempPath, this.filePath);
+    } catch (error) {
+      this.dirty = true;
+      console.error('Failed to write persistent cache:', error);
+      await fs.promises.unlink(tempPath).catch(() => undefined);
+    }
+  }
+
+  private async quarantineCorruptFile(): Promise<void> {
+    try {
+      await fs.promises.rename(this.filePath, `${this.filePath}.corrupt`);
+    } catch {
+      // Nothing to move aside
+    }
+  }
+}
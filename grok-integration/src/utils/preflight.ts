@@ -0,0 +1,286 @@
+import * as vscode from 'vscode';
+import type { TokenBudget } from './models';
+import type { ModelPrice } from './pricing';
+
+export interface PreflightFile {
+  path: string;
+  tokens: number;
+}
+
+export interface PreflightRequest {
+  title: string;
+  files: PreflightFile[];
+  // System prompt and instruction, sent regardless of the file selection
+  overheadTokens: number;
+  budget: TokenBudget;
+  // Undefined when the model has no known price
+  price?: ModelPrice;
+  // Over-budget selections are sent in batches (map-reduce) instead of being blocked
+  chunked?: boolean;
+}
+
+export interface PreflightTotals {
+  selectedFiles: number;
+  promptTokens: number;
+  fits: boolean;
+  inputCost?: number;
+  // Upper bound: assumes the answer uses the whole response budget
+  maxOutputCost?: number;
+}
+
+export function computePreflightTotals(request: PreflightRequest, selectedPaths: Iterable<string>): PreflightTotals {
+  const selected = new Set(selectedPaths);
+  const files = request.files.filter(file => selected.has(file.path));
+  const promptTokens = request.overheadTokens + files.reduce((sum, file) => sum + file.tokens, 0);
+  return {
+    selectedFiles: files.length,
+    promptTokens,
+    fits: promptTokens <= request.budget.maxPromptTokens,
+    inputCost: request.price ? (promptTokens * request.price.input) / 1_000_000 : undefined,
+    maxOutputCost: request.price ? (request.budget.maxResponseTokens * request.price.output) / 1_000_000 : undefined
+  };
+}
+
+function getNonce(): string {
+  const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+  let nonce = '';
+  for (let i = 0; i < 32; i++) {
+    nonce += chars.charAt(Math.floor(Math.random() * chars.length));
+  }
+  return nonce;
+}
+
+/**
+ * Show per-file token counts, the context limit and the estimated cost before a
+ * multi-file request is sent. Resolves with the paths the user kept, or undefined
+ * if the dialog was cancelled or closed.
+ */
+export function showPreflightDialog(request: PreflightRequest, token?: vscode.CancellationToken): Promise<string[] | undefined> {
+  const panel = vscode.window.createWebviewPanel('grokPreflight', `Grok Pre-flight: ${request.title}`, vscode.ViewColumn.Active, {
+    enableScripts: true
+  });
+  const files = [...request.files].sort((a, b) => b.tokens - a.tokens);
+  panel.webview.html = getPreflightHtml(getNonce());
+
+  return new Promise(resolve => {
+    let settled = false;
+    const finish = (result: string[] | undefined) => {
+      if (!settled) {
+        settled = true;
+        resolve(result);
+        panel.dispose();
+      }
+    };
+
+    const cancellation = token?.onCancellationRequested(() => finish(undefined));
+    panel.onDidDispose(() => {
+      cancellation?.dispose();
+      finish(undefined);
+    });
+
+    panel.webview.onDidReceiveMessage(message => {
+      if (message.command === 'ready') {
+        const allPaths = files.map(file => file.path);
+        panel.webview.postMessage({
+          type: 'init',
+          files,
+          budget: request.budget,
+          overheadTokens: request.overheadTokens,
+          hasPrice: !!request.price,
+          chunked: !!request.chunked,
+          totals: computePreflightTotals(request, allPaths)
+        });
+      } else if (message.command === 'selectionChanged' && Array.isArray(message.paths)) {
+        panel.webview.postMessage({ type: 'totals', totals: computePreflightTotals(request, message.paths) });
+      } else if (message.command === 'confirm' && Array.isArray(message.paths)) {
+        // Only accept paths that were offered; the webview is not trusted to add files
+        const offered = new Set(files.map(file => file.path));
+        const kept = (message.paths as unknown[]).filter((p): p is string => typeof p === 'string' && offered.has(p));
+        if ((request.chunked || computePreflightTotals(request, kept).fits) && kept.length > 0) {
+          finish(kept);
+        }
+      } else if (message.command === 'cancel') {
+        finish(undefined);
+      }
+    });
+  });
+}
+
+function getPreflightHtml(nonce: string): string {
+  return `
+    <!DOCTYPE html>
+    <html>
+    <head>
+      <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+      <style>
+        body {
+          background: var(--vscode-editor-background);
+          color: var(--vscode-editor-foreground);
+          font-family: var(--vscode-font-family);
+          padding: 1em;
+        }
+        table {
+          border-collapse: collapse;
+          width: 100%;
+        }
+        th, td {
+          text-align: left;
+          padding: 4px 8px;
+          border-bottom: 1px solid var(--vscode-side-bar-border);
+        }
+        td.number, th.number {
+          text-align: right;
+          font-variant-numeric: tabular-nums;
+        }
+        .summary {
+          position: sticky;
+          top: 0;
+          background: var(--vscode-editor-background);
+          padding: 10px 0;
+          border-bottom: 2px solid #0270DE; /* nd-dark-blue.400 */
+          margin-bottom: 12px;
+        }
+        .over-budget {
+          color: var(--vscode-errorForeground);
+          font-weight: bold;
+        }
+        .actions {
+          display: flex;
+          gap: 8px;
+          margin-top: 10px;
+        }
+        button {
+          cursor: pointer;
+          border-radius: 5px;
+          padding: 6px 14px;
+          font-family: inherit;
+          background: #4EB3D1; /* nd-light-blue.500 */
+          color: #113742; /* nd-light-blue.900 */
+          border: 1px solid #319CBB; /* nd-light-blue.600 */
+        }
+        button#confirm {
+          background: #0270DE; /* nd-dark-blue.400 */
+          color: #fff;
+          border-color: #013D79;
+          font-weight: bold;
+        }
+        button:disabled {
+          opacity: 0.5;
+          cursor: not-allowed;
+        }
+      </style>
+    </head>
+    <body>
+      <div class="summary">
+        <div id="totals">Counting tokens...</div>
+        <div id="limits"></div>
+        <div id="cost"></div>
+        <div class="actions">
+          <button id="confirm" disabled>Send to Grok</button>
+          <button id="select-all">Select All</button>
+          <button id="select-none">Select None</button>
+          <button id="cancel">Cancel</button>
+        </div>
+      </div>
+      <table>
+        <thead>
+          <tr><th></th><th>File</th><th class="number">Tokens</th><th class="number">% of prompt budget</th></tr>
+        </thead>
+        <tbody id="files"></tbody>
+      </table>
+      <script nonce="${nonce}">
+        (function() {
+          const vscode = acquireVsCodeApi();
+          let budget;
+          let chunked = false;
+
+          function formatCost(value) {
+            return value === undefined || value === null ? 'unknown' : '$' + value.toFixed(4);
+          }
+
+          function selectedPaths() {
+            return Array.from(document.querySelectorAll('input[type=checkbox]:checked')).map(box => box.dataset.path);
+          }
+
+          function notifySelection() {
+            vscode.postMessage({ command: 'selectionChanged', paths: selectedPaths() });
+          }
+
+          function renderTotals(totals, hasPrice) {
+            const totalsEl = document.getElementById('totals');
+            totalsEl.textContent = totals.selectedFiles + ' file(s) selected, ' + totals.promptTokens.toLocaleString() +
+              ' of ' + budget.maxPromptTokens.toLocaleString() + ' prompt tokens';
+            totalsEl.className = totals.fits || chunked ? '' : 'over-budget';
+            if (!totals.fits) {
+              totalsEl.textContent += chunked
+                ? ' - over budget, will be split into batches and merged (one request per batch)'
+                : ' - over budget, uncheck files to continue';
+            }
+            document.getElementById('cost').textContent = hasPrice
+              ? 'Estimated cost: ' + formatCost(totals.inputCost) + ' input + up to ' + formatCost(totals.maxOutputCost) + ' output'
+              : 'Estimated cost: unknown for this model (add it to grokIntegration.modelPricing)';
+            document.getElementById('confirm').disabled = (!totals.fits && !chunked) || totals.selectedFiles === 0;
+          }
+
+          let hasPrice = false;
+          window.addEventListener('message', event => {
+            const message = event.data;
+            if (message.type === 'init') {
+              budget = message.budget;
+              hasPrice = message.hasPrice;
+              chunked = message.chunked;
+              document.getElementById('limits').textContent = 'Model ' + budget.model + ': context window ' +
+                budget.contextWindow.toLocaleString() + ' tokens, ' + budget.maxResponseTokens.toLocaleString() +
+                ' reserved for the response; instruction and system prompt use ' + message.overheadTokens.toLocaleString() + ' tokens';
+
+              const body = document.getElementById('files');
+              body.textContent = '';
+              for (const file of message.files) {
+                const row = document.createElement('tr');
+                const checkCell = document.createElement('td');
+                const box = document.createElement('input');
+                box.type = 'checkbox';
+                box.checked = true;
+                box.dataset.path = file.path;
+                box.addEventListener('change', notifySelection);
+                checkCell.appendChild(box);
+
+                const pathCell = document.createElement('td');
+                pathCell.textContent = file.path;
+                const tokenCell = document.createElement('td');
+                tokenCell.className = 'number';
+                tokenCell.textContent = file.tokens.toLocaleString();
+                const shareCell = document.createElement('td');
+                shareCell.className = 'number';
+                shareCell.textContent = (file.tokens / budget.maxPromptTokens * 100).toFixed(1) + '%';
+
+                row.append(checkCell, pathCell, tokenCell, shareCell);
+                body.appendChild(row);
+              }
+              renderTotals(message.totals, hasPrice);
+            } else if (message.type === 'totals') {
+              renderTotals(message.totals, hasPrice);
+            }
+          });
+
+          function setAll(checked) {
+            document.querySelectorAll('input[type=checkbox]').forEach(box => { box.checked = checked; });
+            notifySelection();
+          }
+
+          document.getElementById('select-all').addEventListener('click', () => setAll(true));
+          document.getElementById('select-none').addEventListener('click', () => setAll(false));
+          document.getElementById('confirm').addEventListener('click', () => {
+            vscode.postMessage({ command: 'confirm', paths: selectedPaths() });
+          });
+          document.getElementById('cancel').addEventListener('click', () => {
+            vscode.postMessage({ command: 'cancel' });
+          });
+
+          vscode.postMessage({ command: 'ready' });
+        })();
+      </script>
+    </body>
+    </html>
+  `;
+}
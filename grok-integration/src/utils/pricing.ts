@@ -0,0 +1,55 @@
+import * as vscode from 'vscode';
+
+// USD per million tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// List prices at the time of writing; teams on negotiated rates override them with grokIntegration.modelPricing
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPrice> = {
+  'grok-code-fast-1': { input: 0.2, output: 1.5 },
+  'grok-4-fast': { input: 0.2, output: 0.5 },
+  'grok-4': { input: 3, output: 15 },
+  'grok-3': { input: 3, output: 15 },
+  'grok-3-mini': { input: 0.3, output: 0.5 }
+};
+
+function isModelPrice(value: unknown): value is ModelPrice {
+  const price = value as ModelPrice;
+  return !!price &&
+    typeof price.input === 'number' && Number.isFinite(price.input) && price.input >= 0 &&
+    typeof price.output === 'number' && Number.isFinite(price.output) && price.output >= 0;
+}
+
+export function getModelPricing(): Record<string, ModelPrice> {
+  const config = vscode.workspace.getConfiguration('grokIntegration');
+  const overrides = config.get<Record<string, unknown>>('modelPricing') || {};
+  const pricing: Record<string, ModelPrice> = { ...DEFAULT_MODEL_PRICING };
+  for (const [model, price] of Object.entries(overrides)) {
+    if (isModelPrice(price)) {
+      pricing[model] = { input: price.input, output: price.output };
+    }
+  }
+  return pricing;
+}
+
+// Exact match first, then the longest known prefix so dated variants such as "grok-4-0709" resolve
+export function findModelPrice(model: string, pricing: Record<string, ModelPrice>): ModelPrice | undefined {
+  if (pricing[model]) {
+    return pricing[model];
+  }
+  const prefix = Object.keys(pricing)
+    .filter(name => model.startsWith(`${name}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? pricing[prefix] : undefined;
+}
+
+// Returns undefined for models without a known price so callers can report them separately
+export function estimateCost(model: string, inputTokens: number, outputTokens: number, pricing = getModelPricing()): number | undefined {
+  const price = findModelPrice(model, pricing);
+  if (!price) {
+    return undefined;
+  }
+  return (inputTokens * price.input + outputTokens * price.output) / 1_000_000;
+}
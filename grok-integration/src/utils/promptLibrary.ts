@@ -0,0 +1,170 @@
+import * as vscode from "vscode";
+import * as path from "path";
+
+// Shared prompts live in the repository so teams can review and version them
+export const PROMPT_LIBRARY_DIR = ".grok/prompts";
+
+export type PromptScope = "selection" | "file" | "workspace";
+
+export interface PromptDefinition {
+  // Slash-command friendly identifier derived from the name, e.g. "Add Docs" -> "add-docs"
+  id: string;
+  name: string;
+  description: string;
+  scope: PromptScope;
+  model?: string;
+  temperature?: number;
+  template: string;
+  sourcePath: string;
+}
+
+export interface PromptVariables {
+  selection: string;
+  file: string;
+  fileContent: string;
+  language: string;
+  diagnostics: string;
+  workspace: string;
+  input: string;
+}
+
+/**
+ * Split a Markdown file into its front-matter attributes and body.
+ * Only flat `key: value` pairs are supported, which is all prompt files need.
+ */
+export function parseFrontMatter(text: string): { attributes: Record<string, string>; body: string } {
+  const match = /^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/.exec(text);
+  if (!match) {
+    return { attributes: {}, body: text };
+  }
+
+  const attributes: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const pair = /^\s*([A-Za-z][\w-]*)\s*:\s*(.*?)\s*$/.exec(line);
+    if (pair) {
+      attributes[pair[1].toLowerCase()] = pair[2].replace(/^(["'])(.*)\1$/, "$2");
+    }
+  }
+  return { attributes, body: match[2] };
+}
+
+export function toPromptId(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+export function parsePromptFile(sourcePath: string, text: string): PromptDefinition | undefined {
+  const { attributes, body } = parseFrontMatter(text);
+  const template = body.trim();
+  if (!template) {
+    return undefined;
+  }
+
+  const name = attributes.name || path.basename(sourcePath, path.extname(sourcePath));
+  const id = toPromptId(name);
+  if (!id) {
+    return undefined;
+  }
+
+  const scope: PromptScope = ["selection", "file", "workspace"].includes(attributes.scope)
+    ? (attributes.scope as PromptScope)
+    : "selection";
+
+  // Model names are passed to the API verbatim, so only accept plain identifiers
+  const model = attributes.model && /^[\w.:-]+$/.test(attributes.model) ? attributes.model : undefined;
+
+  const parsedTemperature = parseFloat(attributes.temperature);
+  const temperature = Number.isFinite(parsedTemperature) ? Math.max(0, Math.min(2, parsedTemperature)) : undefined;
+
+  return {
+    id,
+    name,
+    description: attributes.description || "",
+    scope,
+    model,
+    temperature,
+    template,
+    sourcePath,
+  };
+}
+
+/**
+ * Replace `{{variable}}` placeholders; unknown variables are left untouched so
+ * typos stay visible in the request.
+ */
+export function renderPromptTemplate(template: string, variables: Partial<PromptVariables>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (placeholder, name: string) => {
+    const value = (variables as Record<string, string | undefined>)[name];
+    return value !== undefined ? value : placeholder;
+  });
+}
+
+export function usesVariable(template: string, name: keyof PromptVariables): boolean {
+  return new RegExp(`\\{\\{\\s*${name}\\s*\\}\\}`).test(template);
+}
+
+// Load every prompt in .grok/prompts of each workspace folder; later folders cannot shadow earlier ids
+export async function loadPromptLibrary(): Promise<PromptDefinition[]> {
+  const prompts: PromptDefinition[] = [];
+  const seen = new Set<string>();
+
+  for (const folder of vscode.workspace.workspaceFolders || []) {
+    const files = await vscode.workspace.findFiles(
+      new vscode.RelativePattern(folder, `${PROMPT_LIBRARY_DIR}/*.md`)
+    );
+    files.sort((a, b) => a.path.localeCompare(b.path));
+
+    for (const file of files) {
+      try {
+        const bytes = await vscode.workspace.fs.readFile(file);
+        const prompt = parsePromptFile(vscode.workspace.asRelativePath(file), new TextDecoder("utf-8").decode(bytes));
+        if (prompt && !seen.has(prompt.id)) {
+          seen.add(prompt.id);
+          prompts.push(prompt);
+        }
+      } catch (error) {
+        console.warn(`Failed to load prompt ${file.fsPath}: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+  }
+  return prompts;
+}
+
+export function formatDiagnostics(document: vscode.TextDocument, range?: vscode.Range): string {
+  const diagnostics = vscode.languages
+    .getDiagnostics(document.uri)
+    .filter((diagnostic) => !range || range.isEmpty || range.intersection(diagnostic.range));
+
+  if (diagnostics.length === 0) {
+    return "No diagnostics reported.";
+  }
+
+  return diagnostics
+    .map((diagnostic) => {
+      const severity = vscode.DiagnosticSeverity[diagnostic.severity];
+      const source = diagnostic.source ? ` (${diagnostic.source})` : "";
+      return `- [${severity}] line ${diagnostic.range.start.line + 1}: ${diagnostic.message}${source}`;
+    })
+    .join("\n");
+}
+
+export function buildPromptVariables(editor: vscode.TextEditor | undefined, scope: PromptScope): Partial<PromptVariables> {
+  const workspace = vscode.workspace.name || "Untitled";
+  if (!editor) {
+    return { workspace };
+  }
+
+  const document = editor.document;
+  const fileContent = document.getText();
+  const selectedText = document.getText(editor.selection);
+  return {
+    selection: scope === "file" ? fileContent : selectedText || fileContent,
+    file: vscode.workspace.asRelativePath(document.uri),
+    fileContent,
+    language: document.languageId,
+    diagnostics: formatDiagnostics(document, scope === "selection" ? editor.selection : undefined),
+    workspace,
+  };
+}
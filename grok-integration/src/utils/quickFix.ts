@@ -0,0 +1,79 @@
+import * as vscode from 'vscode';
+import { DiagnosticEntry, formatDiagnostic, formatDiagnosticList } from './diagnosticsCheck';
+
+export const FIX_DIAGNOSTIC_COMMAND = 'grok-integration.fixDiagnostic';
+
+// Lines sent on each side of a diagnostic that is not inside a function
+export const QUICK_FIX_CONTEXT_LINES = 10;
+// Functions longer than this are replaced by the lines around the diagnostic, to keep the rewrite small
+export const MAX_QUICK_FIX_LINES = 300;
+
+export const QUICK_FIX_SYSTEM_PROMPT =
+  'You fix compiler and linter problems in code. You are given a diagnostic and the region of the file it is in. ' +
+  'Reply with the complete corrected region in a single fenced code block, and nothing else. ' +
+  'Keep every line that does not need to change exactly as it is, including indentation, and do not add code outside the region.';
+
+export interface QuickFixRequest {
+  filePath: string;
+  languageId: string;
+  diagnostic: DiagnosticEntry;
+  // Other problems in the region, and locations the diagnostic refers to
+  related: DiagnosticEntry[];
+  // 1-based line of the first line of code
+  startLine: number;
+  code: string;
+  // Name of the function the region is, when there is one
+  functionName?: string;
+}
+
+export function buildQuickFixPrompt(request: QuickFixRequest): string {
+  const lineCount = request.code.split('\n').length;
+  const regionName = request.functionName ? `function ${request.functionName}` : 'region';
+  const parts = [
+    `Fix this problem in ${request.filePath}:`,
+    formatDiagnostic(request.diagnostic)
+  ];
+  if (request.related.length > 0) {
+    parts.push('', 'Related diagnostics:', formatDiagnosticList(request.related));
+  }
+  parts.push(
+    '',
+    `The ${regionName}, lines ${request.startLine}-${request.startLine + lineCount - 1}; reply with all of it, corrected:`,
+    '```' + request.languageId,
+    request.code,
+    '```'
+  );
+  return parts.join('\n');
+}
+
+// Contents of the first fenced code block, or undefined when the reply has none
+export function extractReplacement(reply: string): string | undefined {
+  const match = reply.replace(/\r\n/g, '\n').match(/```[^\n`]*\n([\s\S]*?)\n?```/);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Offers "Fix with Grok" on every error and warning. The action only carries a command;
+ * the request is made when it is chosen, never while VS Code collects lightbulb actions.
+ */
+export class GrokQuickFixProvider implements vscode.CodeActionProvider {
+  static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+  provideCodeActions(document: vscode.TextDocument, _range: vscode.Range | vscode.Selection, context: vscode.CodeActionContext): vscode.CodeAction[] {
+    const diagnostics = context.diagnostics.filter(diagnostic =>
+      diagnostic.severity === vscode.DiagnosticSeverity.Error || diagnostic.severity === vscode.DiagnosticSeverity.Warning);
+    return diagnostics.map(diagnostic => {
+      // Several problems on one line need titles that tell the actions apart
+      const title = diagnostics.length > 1 ? `Fix with Grok: ${shorten(diagnostic.message)}` : 'Fix with Grok';
+      const action = new vscode.CodeAction(title, vscode.CodeActionKind.QuickFix);
+      action.diagnostics = [diagnostic];
+      action.command = { command: FIX_DIAGNOSTIC_COMMAND, title, arguments: [document.uri, diagnostic] };
+      return action;
+    });
+  }
+}
+
+function shorten(message: string, length = 60): string {
+  const line = message.replace(/\s+/g, ' ').trim();
+  return line.length > length ? `${line.substring(0, length - 1)}…` : line;
+}
@@ -0,0 +1,341 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+import { readJsonFile } from './jsonFile';
+
+export interface IndexedChunk {
+  startLine: number;
+  endLine: number;
+  // Number of indexed terms, the document length in BM25
+  length: number;
+  terms: Record<string, number>;
+}
+
+interface IndexedFile {
+  mtime: number;
+  // Bytes on disk; with mtime, tells a sync the file has not changed without reading it
+  size: number;
+  // Empty for files over MAX_INDEXED_FILE_CHARS, which are recorded only so a sync skips them
+  chunks: IndexedChunk[];
+}
+
+interface PersistedIndexFile {
+  version: number;
+  files: Record<string, IndexedFile>;
+}
+
+export interface RetrievalChunkMatch {
+  startLine: number;
+  endLine: number;
+  score: number;
+}
+
+export interface RetrievalResult {
+  path: string;
+  score: number;
+  // Query terms found in the file, strongest first
+  matchedTerms: string[];
+  // Best matching line ranges, strongest first
+  chunks: RetrievalChunkMatch[];
+}
+
+const INDEX_FILE_VERSION = 2;
+const INDEX_FILE_NAME = 'retrieval-index.json';
+const FLUSH_DELAY_MS = 5000;
+
+export const CHUNK_LINES = 60;
+// Generated or minified files this large say little about where code lives
+export const MAX_INDEXED_FILE_CHARS = 1_000_000;
+const MAX_CHUNKS_PER_RESULT = 3;
+
+// Standard BM25 parameters
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'do', 'does', 'for', 'from', 'how', 'in', 'is', 'it', 'of', 'on',
+  'or', 'that', 'the', 'this', 'to', 'was', 'what', 'when', 'where', 'which', 'who', 'why', 'with', 'my', 'me',
+  'i', 'we', 'you', 'can', 'should', 'would', 'could', 'there', 'their', 'these', 'those', 'about', 'into', 'if',
+  'then', 'else', 'return', 'const', 'let', 'var', 'function', 'import', 'export', 'new', 'true', 'false', 'null',
+  'undefined', 'void', 'public', 'private', 'static', 'class', 'def', 'self'
+]);
+
+/**
+ * Terms for the index and for queries. Identifiers are kept whole and also split on
+ * camelCase and snake_case, so "getFilesList" matches questions about "files" and
+ * the exact name alike.
+ */
+export function tokenizeForIndex(text: string): string[] {
+  const terms: string[] = [];
+  for (const identifier of text.match(/[A-Za-z_][A-Za-z0-9_]*/g) || []) {
+    const whole = identifier.toLowerCase();
+    const parts = identifier
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[_\s]+/)
+      .map(part => part.toLowerCase());
+    for (const term of parts.length > 1 ? [whole, ...parts] : [whole]) {
+      if (term.length >= 2 && term.length <= 64 && !STOP_WORDS.has(term)) {
+        terms.push(term);
+      }
+    }
+  }
+  return terms;
+}
+
+// Terms such as "constructor" must not resolve to Object.prototype members
+function countTerms(terms: string[]): Record<string, number> {
+  const counts: Record<string, number> = Object.create(null);
+  for (const term of terms) {
+    counts[term] = (counts[term] || 0) + 1;
+  }
+  return counts;
+}
+
+/**
+ * Split a file into fixed line windows. The path's terms are added to every chunk so a
+ * question naming a file or folder finds it even when the code never repeats the name.
+ */
+export function buildChunks(filePath: string, content: string, chunkLines = CHUNK_LINES): IndexedChunk[] {
+  const pathTerms = tokenizeForIndex(filePath);
+  const lines = content.split('\n');
+  const chunks: IndexedChunk[] = [];
+  for (let start = 0; start < lines.length; start += chunkLines) {
+    const window = lines.slice(start, start + chunkLines);
+    const terms = [...pathTerms, ...tokenizeForIndex(window.join('\n'))];
+    chunks.push({ startLine: start + 1, endLine: start + window.length, length: terms.length, terms: countTerms(terms) });
+  }
+  return chunks;
+}
+
+function isValidFile(value: unknown): value is IndexedFile {
+  const file = value as IndexedFile;
+  return !!file && typeof file.mtime === 'number' && typeof file.size === 'number' && Array.isArray(file.chunks) &&
+    file.chunks.every(chunk => !!chunk && typeof chunk.startLine === 'number' && typeof chunk.endLine === 'number' &&
+      typeof chunk.length === 'number' && typeof chunk.terms === 'object' && chunk.terms !== null);
+}
+
+/**
+ * Offline BM25 index over workspace files, split into line chunks so results can point
+ * at where a match is. Files are added and removed one at a time, keeping document
+ * frequencies current without a rebuild. Stored in workspace storage when a directory is
+ * given; nothing leaves the machine.
+ */
+export class RetrievalIndex {
+  private files = new Map<string, IndexedFile>();
+  private documentFrequency = new Map<string, number>();
+  private chunkCount = 0;
+  private totalLength = 0;
+  private loaded = false;
+  private dirty = false;
+  private flushTimer: NodeJS.Timeout | undefined;
+
+  constructor(private readonly storageDir?: string) { }
+
+  get filePath(): string | undefined {
+    return this.storageDir ? path.join(this.storageDir, INDEX_FILE_NAME) : undefined;
+  }
+
+  get isLoaded(): boolean {
+    return this.loaded;
+  }
+
+  // Files with searchable content, not counting oversized ones
+  get fileCount(): number {
+    let count = 0;
+    for (const file of this.files.values()) {
+      if (file.chunks.length > 0) {
+        count++;
+      }
+    }
+    return count;
+  }
+
+  paths(): string[] {
+    return Array.from(this.files.keys());
+  }
+
+  has(filePath: string): boolean {
+    return this.files.has(filePath);
+  }
+
+  // Whether the stored entry, indexed or skipped, matches the file on disk
+  isCurrent(filePath: string, mtime: number, size: number): boolean {
+    const file = this.files.get(filePath);
+    return !!file && file.mtime === mtime && file.size === size;
+  }
+
+  // Load the stored index; a missing or unreadable file leaves it empty to be rebuilt
+  async load(): Promise<void> {
+    const filePath = this.filePath;
+    try {
+      if (!filePath) {
+        return;
+      }
+      const parsed = await readJsonFile(filePath) as PersistedIndexFile | undefined;
+      if (!parsed) {
+        return;
+      }
+      if (parsed.version !== INDEX_FILE_VERSION || typeof parsed.files !== 'object' || parsed.files === null) {
+        throw new Error('Unsupported index file format');
+      }
+      for (const [indexedPath, file] of Object.entries(parsed.files)) {
+        if (isValidFile(file)) {
+          this.addFile(indexedPath, file);
+        }
+      }
+    } catch (error) {
+      console.warn(`Retrieval index unreadable, rebuilding: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      this.loaded = true;
+    }
+  }
+
+  updateFile(filePath: string, content: string, mtime: number, size: number): void {
+    this.removeEntry(filePath);
+    const chunks = content.length <= MAX_INDEXED_FILE_CHARS ? buildChunks(filePath, content) : [];
+    this.addFile(filePath, { mtime, size, chunks });
+    this.scheduleFlush();
+  }
+
+  removeFile(filePath: string): boolean {
+    const removed = this.removeEntry(filePath);
+    if (removed) {
+      this.scheduleFlush();
+    }
+    return removed;
+  }
+
+  clear(): void {
+    this.files.clear();
+    this.documentFrequency.clear();
+    this.chunkCount = 0;
+    this.totalLength = 0;
+    this.scheduleFlush();
+  }
+
+  /**
+   * Rank files for a question. A file scores as its best chunk plus a smaller share of
+   * its other matching chunks, so one focused match beats many scattered mentions.
+   */
+  search(query: string, limit: number): RetrievalResult[] {
+    const queryTerms = Array.from(new Set(tokenizeForIndex(query)));
+    if (queryTerms.length === 0 || this.chunkCount === 0) {
+      return [];
+    }
+
+    const averageLength = this.totalLength / this.chunkCount || 1;
+    const idf = new Map<string, number>();
+    for (const term of queryTerms) {
+      const df = this.documentFrequency.get(term) || 0;
+      if (df > 0) {
+        idf.set(term, Math.log(1 + (this.chunkCount - df + 0.5) / (df + 0.5)));
+      }
+    }
+    if (idf.size === 0) {
+      return [];
+    }
+
+    const results: RetrievalResult[] = [];
+    for (const [filePath, file] of this.files) {
+      const termScores = new Map<string, number>();
+      const chunks: RetrievalChunkMatch[] = [];
+      for (const chunk of file.chunks) {
+        let score = 0;
+        for (const [term, weight] of idf) {
+          const tf = Object.prototype.hasOwnProperty.call(chunk.terms, term) ? chunk.terms[term] : 0;
+          if (tf) {
+            const termScore = weight * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * (1 - BM25_B + BM25_B * chunk.length / averageLength));
+            score += termScore;
+            termScores.set(term, (termScores.get(term) || 0) + termScore);
+          }
+        }
+        if (score > 0) {
+          chunks.push({ startLine: chunk.startLine, endLine: chunk.endLine, score });
+        }
+      }
+      if (chunks.length === 0) {
+        continue;
+      }
+
+      chunks.sort((a, b) => b.score - a.score);
+      const score = chunks[0].score + 0.25 * chunks.slice(1).reduce((sum, chunk) => sum + chunk.score, 0);
+      results.push({
+        path: filePath,
+        score,
+        matchedTerms: Array.from(termScores.entries()).sort((a, b) => b[1] - a[1]).map(([term]) => term),
+        chunks: chunks.slice(0, MAX_CHUNKS_PER_RESULT)
+      });
+    }
+
+    return results.sort((a, b) => b.score - a.score || a.path.localeCompare(b.path)).slice(0, Math.max(0, limit));
+  }
+
+  // Write atomically (temp file + rename), like the persistent response cache
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    const filePath = this.filePath;
+    if (!filePath || !this.storageDir || !this.dirty || !this.loaded) {
+      return;
+    }
+    this.dirty = false;
+
+    const data: PersistedIndexFile = { version: INDEX_FILE_VERSION, files: Object.fromEntries(this.files) };
+    const tempPath = `${filePath}.${process.pid}.tmp`;
+    try {
+      await fs.promises.mkdir(this.storageDir, { recursive: true });
+      await fs.promises.writeFile(tempPath, JSON.stringify(data), 'utf8');
+      await fs.promises.rename(tempPath, filePath);
+    } catch (error) {
+      this.dirty = true;
+      console.error('Failed to write retrieval index:', error);
+      await fs.promises.unlink(tempPath).catch(() => undefined);
+    }
+  }
+
+  private addFile(filePath: string, file: IndexedFile): void {
+    this.files.set(filePath, file);
+    for (const chunk of file.chunks) {
+      this.chunkCount++;
+      this.totalLength += chunk.length;
+      for (const term of Object.keys(chunk.terms)) {
+        this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1);
+      }
+    }
+  }
+
+  private removeEntry(filePath: string): boolean {
+    const file = this.files.get(filePath);
+    if (!file) {
+      return false;
+    }
+    this.files.delete(filePath);
+    for (const chunk of file.chunks) {
+      this.chunkCount--;
+      this.totalLength -= chunk.length;
+      for (const term of Object.keys(chunk.terms)) {
+        const df = (this.documentFrequency.get(term) || 0) - 1;
+        if (df > 0) {
+          this.documentFrequency.set(term, df);
+        } else {
+          this.documentFrequency.delete(term);
+        }
+      }
+    }
+    return true;
+  }
+
+  private scheduleFlush(): void {
+    this.dirty = true;
+    if (this.flushTimer || !this.storageDir) {
+      return;
+    }
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = undefined;
+      void this.flush();
+    }, FLUSH_DELAY_MS);
+  }
+}
@@ -1,23 +1,114 @@
-import { Tiktoken } from '@dqbd/tiktoken';
-import { encoding_for_model, type TiktokenModel } from "@dqbd/tiktoken";
+import type { Tiktoken, TiktokenEncoding } from '@dqbd/tiktoken';
 
-// Note: Ensure '@dqbd/tiktoken' is installed via npm or yarn.
-// This library provides accurate tokenization for GPT models.
+export interface TokenizerMessage {
+  role: string;
+  content: string;
+}
+
+// xAI does not publish Grok's tokenizer; these encodings track its counts most closely.
+// Longest prefix wins, so dated variants such as "grok-4-0709" resolve to their family.
+const MODEL_ENCODINGS: Record<string, TiktokenEncoding> = {
+  'grok-code': 'o200k_base',
+  'grok-4': 'o200k_base',
+  'grok-3': 'o200k_base',
+  'grok-2': 'cl100k_base',
+  'grok-beta': 'cl100k_base',
+  'gpt-4o': 'o200k_base',
+  'gpt-4': 'cl100k_base',
+  'gpt-3.5': 'cl100k_base'
+};
+
+export const DEFAULT_ENCODING: TiktokenEncoding = 'o200k_base';
+
+// Chat formatting overhead: role markers per message and the tokens that prime the reply
+const TOKENS_PER_MESSAGE = 3;
+const REPLY_PRIMING_TOKENS = 3;
+
+// undefined = not loaded yet, null = the WebAssembly module could not be loaded
+let tiktoken: typeof import('@dqbd/tiktoken') | null | undefined;
+const encoders = new Map<TiktokenEncoding, Tiktoken>();
+
+export function getEncodingForModel(model: string): TiktokenEncoding {
+  const normalized = model.toLowerCase().trim();
+  const prefix = Object.keys(MODEL_ENCODINGS)
+    .filter(name => normalized.startsWith(name))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_ENCODINGS[prefix] : DEFAULT_ENCODING;
+}
+
+// Loaded lazily so activation does not pay for the WebAssembly module until a count is needed
+function getEncoder(encoding: TiktokenEncoding): Tiktoken | undefined {
+  if (tiktoken === undefined) {
+    try {
+      tiktoken = require('@dqbd/tiktoken') as typeof import('@dqbd/tiktoken');
+    } catch (error) {
+      console.warn(`Tokenizer unavailable, using heuristic token estimates: ${error instanceof Error ? error.message : String(error)}`);
+      tiktoken = null;
+    }
+  }
+  if (!tiktoken) {
+    return undefined;
+  }
+
+  let encoder = encoders.get(encoding);
+  if (!encoder) {
+    try {
+      encoder = tiktoken.get_encoding(encoding);
+      encoders.set(encoding, encoder);
+    } catch (error) {
+      console.warn(`Failed to load ${encoding} encoding: ${error instanceof Error ? error.message : String(error)}`);
+      return undefined;
+    }
+  }
+  return encoder;
+}
+
+export function isExactTokenizerAvailable(model: string): boolean {
+  return getEncoder(getEncodingForModel(model)) !== undefined;
+}
 
-export function tokenizeText(text: string, model: string = 'gpt-3.5-turbo'): number {
-  try {
-        const tokenizer: Tiktoken = encoding_for_model(model as TiktokenModel);
-    const tokens = tokenizer.encode(text);
-    return tokens.length;
+/**
+ * Word-based estimate used when the tokenizer cannot be loaded. The multiplier
+ * (grokIntegration.tokenMultiplier) pads the estimate so budget checks stay on the safe side.
+ */
+export function estimateTokensHeuristic(text: string, multiplier = 1.1): number {
+  if (!text) {
+    return 0;
   }
-  
+  const words = text.trim().split(/\s+/).filter(word => word.length > 0);
+  const specialChars = (text.match(/[^\w\s]/g) || []).length;
+  return Math.max(1, Math.ceil(words.length * multiplier) + Math.ceil(specialChars * 0.1 * multiplier));
+}
 
-  catch (error) {
-    console.error('Tokenization error:', error);
-    // Fallback to a simple heuristic if tokenization fails
-    return text.split(/\s+/).length + 1; // Approximate token count
+export function countTokens(text: string, model: string, fallbackMultiplier = 1.1): number {
+  if (!text) {
+    return 0;
+  }
+  const encoder = getEncoder(getEncodingForModel(model));
+  if (encoder) {
+    try {
+      // Ordinary encoding: special-token markers in user code are counted as plain text instead of throwing
+      return encoder.encode_ordinary(text).length;
+    } catch (error) {
+      console.warn(`Tokenization failed, using heuristic: ${error instanceof Error ? error.message : String(error)}`);
+    }
   }
+  return estimateTokensHeuristic(text, fallbackMultiplier);
 }
 
-// Usage example:
-// const tokenCount = tokenizeText('Hello, world!');
\ No newline at end of file
+// Tokens a chat request consumes before the model writes its reply
+export function countMessageTokens(messages: TokenizerMessage[], model: string, fallbackMultiplier = 1.1, includeReplyPriming = true): number {
+  let total = includeReplyPriming && messages.length > 0 ? REPLY_PRIMING_TOKENS : 0;
+  for (const message of messages) {
+    total += TOKENS_PER_MESSAGE + countTokens(message.role, model, fallbackMultiplier) + countTokens(message.content, model, fallbackMultiplier);
+  }
+  return total;
+}
+
+// Release the WebAssembly memory held by loaded encoders
+export function disposeTokenizers(): void {
+  for (const encoder of encoders.values()) {
+    encoder.free();
+  }
+  encoders.clear();
+}
@@ -0,0 +1,19 @@
+import * as vscode from "vscode";
+
+export async function promptForApiKey(): Promise<string | undefined> {
+  const apiKey = await vscode.window.showInputBox({
+    prompt: "Enter your xAI API key",
+    password: true,
+    placeHolder: "xai-...",
+    ignoreFocusOut: true,
+  });
+  return apiKey && apiKey.trim() ? apiKey.trim() : undefined;
+}
+
+export async function promptForQuestion(): Promise<string | undefined> {
+  const question = await vscode.window.showInputBox({
+    prompt: "What would you like to ask Grok?",
+    ignoreFocusOut: true,
+  });
+  return question && question.trim() ? question.trim() : undefined;
+}